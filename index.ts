@@ -1,5 +1,8 @@
 import { RackspaceSpotClient } from './src/api-client';
 import { RackspaceSpotCollector } from './src/collector';
+import { CollectionRunner } from './src/collection-runner';
+import { checkReadiness } from './src/readiness';
+import { isLogLevel, Logger } from './src/logger';
 import { collectDefaultMetrics, Registry } from 'prom-client';
 
 // Configuration from environment variables
@@ -7,20 +10,63 @@ const config = {
   refreshToken: process.env.RACKSPACE_REFRESH_TOKEN || '',
   apiBaseUrl: process.env.RACKSPACE_API_URL || undefined, // Uses default: https://spot.rackspace.com
   authBaseUrl: process.env.RACKSPACE_AUTH_URL || undefined, // Uses default: https://login.spot.rackspace.com
-  organization: process.env.RACKSPACE_ORGANIZATION || '',
+  publicDataBaseUrl: process.env.RACKSPACE_PUBLIC_DATA_URL || undefined, // Uses default: the public pricing data bucket
+  organizations: parseList(process.env.RACKSPACE_ORGANIZATION), // Comma-separated list, or "all" to discover
   port: parseInt(process.env.PORT || '9090', 10),
   metricsPath: process.env.METRICS_PATH || '/metrics',
   scrapeInterval: parseInt(process.env.SCRAPE_INTERVAL || '60', 10) * 1000, // Convert to milliseconds
+  collectionMode: process.env.COLLECTION_MODE || 'interval', // "interval" polls on SCRAPE_INTERVAL, "scrape" collects on demand
+  collectionMinAge: parseInt(process.env.COLLECTION_MIN_AGE || '30', 10) * 1000, // Convert to milliseconds
+  readyMaxAgeMultiplier: parseFloat(process.env.READY_MAX_AGE_MULTIPLIER || '3'), // Max data age, in scrape intervals
+  apiMaxRetries: parseInt(process.env.API_MAX_RETRIES || '3', 10),
+  apiTimeout: parseInt(process.env.API_TIMEOUT || '30', 10) * 1000, // Convert to milliseconds
+  priceHistoryServerClasses: parseList(process.env.PRICE_HISTORY_SERVER_CLASSES), // Defaults to classes used by node pools
+  priceHistoryWindows: process.env.PRICE_HISTORY_WINDOWS ? parseList(process.env.PRICE_HISTORY_WINDOWS) : undefined,
+  nodePoolLabels: parseList(process.env.NODEPOOL_LABELS), // Custom node pool label keys to expose as label_<key>
+  logLevel: process.env.LOG_LEVEL || 'info', // debug, info, warn or error
 };
 
+function parseList(value: string | undefined): string[] {
+  return (value || '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => item !== '');
+}
+
+if (!isLogLevel(config.logLevel)) {
+  console.error(`ERROR: LOG_LEVEL must be "debug", "info", "warn" or "error", got "${config.logLevel}"`);
+  process.exit(1);
+}
+
+const logger = new Logger({ level: config.logLevel });
+logger.setSecret('refresh_token', config.refreshToken);
+
 // Validate required configuration
-if (!config.refreshToken || !config.organization) {
-  console.error('ERROR: Required environment variables are missing:');
-  console.error('  - RACKSPACE_REFRESH_TOKEN');
-  console.error('  - RACKSPACE_ORGANIZATION (org-xxxxx format)');
+if (!config.refreshToken || config.organizations.length === 0) {
+  logger.error('Required environment variables are missing', {
+    required: ['RACKSPACE_REFRESH_TOKEN', 'RACKSPACE_ORGANIZATION (org-xxxxx format, comma-separated list, or "all")'],
+  });
   process.exit(1);
 }
 
+if (config.collectionMode !== 'interval' && config.collectionMode !== 'scrape') {
+  logger.error('COLLECTION_MODE must be "interval" or "scrape"', { collection_mode: config.collectionMode });
+  process.exit(1);
+}
+
+const numericSettings = {
+  COLLECTION_MIN_AGE: config.collectionMinAge,
+  READY_MAX_AGE_MULTIPLIER: config.readyMaxAgeMultiplier,
+  API_MAX_RETRIES: config.apiMaxRetries,
+  API_TIMEOUT: config.apiTimeout,
+};
+for (const [name, value] of Object.entries(numericSettings)) {
+  if (!Number.isFinite(value) || value < 0) {
+    logger.error(`${name} must be a non-negative number`, { value: process.env[name] });
+    process.exit(1);
+  }
+}
+
 // Create registry and enable default metrics
 const registry = new Registry();
 collectDefaultMetrics({ register: registry });
@@ -30,35 +76,46 @@ const client = new RackspaceSpotClient({
   refreshToken: config.refreshToken,
   apiBaseUrl: config.apiBaseUrl,
   authBaseUrl: config.authBaseUrl,
+  publicDataBaseUrl: config.publicDataBaseUrl,
+  registry,
+  maxRetries: config.apiMaxRetries,
+  requestTimeoutMs: config.apiTimeout,
+  logger,
 });
 
-const collector = new RackspaceSpotCollector(client, config.organization, registry);
+const collector = new RackspaceSpotCollector(client, config.organizations, registry, {
+  priceHistoryServerClasses: config.priceHistoryServerClasses,
+  priceHistoryWindows: config.priceHistoryWindows,
+  nodePoolLabels: config.nodePoolLabels,
+  logger,
+});
 
-// Background collection loop
-let isCollecting = false;
+// The collector logs each cycle's outcome, including partial failures
 async function collectMetrics() {
-  if (isCollecting) {
-    console.log('Collection already in progress, skipping...');
-    return;
-  }
-
-  isCollecting = true;
   try {
     await collector.collect();
-    console.log(`Metrics collected successfully at ${new Date().toISOString()}`);
   } catch (error) {
-    console.error('Error collecting metrics:', error);
-  } finally {
-    isCollecting = false;
+    logger.error('Error collecting metrics', { error });
   }
 }
 
-// Initial collection
-console.log('Performing initial metrics collection...');
-await collectMetrics();
+// Overlapping requests for a collection share one cycle
+const runner = new CollectionRunner(collectMetrics);
+
+// Ready once every required section has collected, with data no older than READY_MAX_AGE_MULTIPLIER scrape
+// intervals. In scrape mode data ages between scrapes, so only the first collection counts, and since an unready
+// pod is not scraped, a failing readiness check starts a collection in the background for a later probe to see.
+function readinessResponse(): Response {
+  const maxDataAgeMs =
+    config.collectionMode === 'interval' ? config.scrapeInterval * config.readyMaxAgeMultiplier : undefined;
 
-// Schedule periodic collection
-setInterval(collectMetrics, config.scrapeInterval);
+  const readiness = checkReadiness(collector.getSectionStatus(), { maxDataAgeMs });
+  if (!readiness.ready && config.collectionMode === 'scrape') {
+    void runner.refresh(config.collectionMinAge);
+  }
+
+  return Response.json(readiness, { status: readiness.ready ? 200 : 503 });
+}
 
 // Create HTTP server
 const server = Bun.serve({
@@ -67,6 +124,11 @@ const server = Bun.serve({
     const url = new URL(req.url);
 
     if (url.pathname === config.metricsPath) {
+      // In scrape mode, collect unless the last cycle is recent enough to reuse
+      if (config.collectionMode === 'scrape') {
+        await runner.refresh(config.collectionMinAge);
+      }
+
       const metrics = await registry.metrics();
       return new Response(metrics, {
         headers: {
@@ -80,7 +142,7 @@ const server = Bun.serve({
     }
 
     if (url.pathname === '/ready' || url.pathname === '/readyz') {
-      return new Response('OK', { status: 200 });
+      return readinessResponse();
     }
 
     if (url.pathname === '/') {
@@ -90,7 +152,8 @@ const server = Bun.serve({
 <body>
 <h1>Rackspace Spot Exporter</h1>
 <p><a href="${config.metricsPath}">Metrics</a></p>
-<p>Organization: ${config.organization}</p>
+<p>Organizations: ${config.organizations.join(', ')}</p>
+<p>Collection Mode: ${config.collectionMode}</p>
 <p>Scrape Interval: ${config.scrapeInterval / 1000}s</p>
 </body>
 </html>`,
@@ -106,8 +169,22 @@ const server = Bun.serve({
   },
 });
 
-console.log(`Rackspace Spot Exporter started`);
-console.log(`  - Metrics endpoint: http://localhost:${config.port}${config.metricsPath}`);
-console.log(`  - Health endpoint: http://localhost:${config.port}/health`);
-console.log(`  - Organization: ${config.organization}`);
-console.log(`  - Scrape interval: ${config.scrapeInterval / 1000}s`);
\ No newline at end of file
+logger.info('Rackspace Spot Exporter started', {
+  metrics_endpoint: `http://localhost:${config.port}${config.metricsPath}`,
+  health_endpoint: `http://localhost:${config.port}/health`,
+  organizations: config.organizations,
+  collection_mode: config.collectionMode,
+  ...(config.collectionMode === 'scrape'
+    ? { collection_min_age_seconds: config.collectionMinAge / 1000 }
+    : { scrape_interval_seconds: config.scrapeInterval / 1000 }),
+  log_level: config.logLevel,
+});
+
+// Collect after the server is listening, so a slow or failing first cycle does not fail the liveness probe
+if (config.collectionMode === 'interval') {
+  logger.info('Performing initial metrics collection');
+  void runner.run();
+
+  // Schedule periodic collection
+  setInterval(() => runner.run(), config.scrapeInterval);
+}
@@ -1,17 +1,45 @@
 import createClient, { type Middleware } from 'openapi-fetch';
+import { Counter, Gauge, Registry } from 'prom-client';
 import type { paths } from './api-types';
+import { Logger } from './logger';
+import { parseRetryAfter } from './parse';
 
 // Default URLs matching rackspace-spot-mcp patterns
 const DEFAULT_API_BASE_URL = 'https://spot.rackspace.com';
 const DEFAULT_AUTH_BASE_URL = 'https://login.spot.rackspace.com';
+// Price history, percentiles and comparable prices are public data served without authentication
+const DEFAULT_PUBLIC_DATA_BASE_URL = 'https://ngpc-prod-public-data.s3.us-east-2.amazonaws.com';
 const PUBLIC_CLIENT_ID = 'mwG3lUMV8KyeMqHe4fJ5Bb3nM1vBvRNa';
 
+// Retry defaults: up to 3 retries, backing off from 500ms to at most 30s
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_RETRY_BASE_DELAY_MS = 500;
+const DEFAULT_RETRY_MAX_DELAY_MS = 30000;
+const DEFAULT_REQUEST_TIMEOUT_MS = 30000;
+
+// Guards against a `next` link that never runs out
+const MAX_ORGANIZATION_PAGES = 100;
+
 export interface RackspaceSpotConfig {
   refreshToken: string;
   apiBaseUrl?: string;
   authBaseUrl?: string;
+  publicDataBaseUrl?: string;
+  // Registry for the client's own scrape health metrics
+  registry?: Registry;
+  // Retries after 5xx, 429 and network errors (0 disables retries)
+  maxRetries?: number;
+  // Exponential backoff starts at this delay and is capped at retryMaxDelayMs
+  retryBaseDelayMs?: number;
+  retryMaxDelayMs?: number;
+  // Timeout of each individual request attempt
+  requestTimeoutMs?: number;
+  logger?: Logger;
 }
 
+type OrganizationList =
+  paths['/apis/auth.ngpc.rxt.io/v1/organizations']['get']['responses'][200]['content']['application/json'];
+
 interface OAuthTokenResponse {
   access_token: string;
   id_token: string;
@@ -25,16 +53,68 @@ export class RackspaceSpotClient {
   private apiBaseUrl: string;
   private authBaseUrl: string;
   private client: ReturnType<typeof createClient<paths>>;
+  private publicDataClient: ReturnType<typeof createClient<paths>>;
   private accessToken: string | null = null;
   private tokenExpiry: number = 0;
+  private authenticating: Promise<void> | undefined;
+  private maxRetries: number;
+  private retryBaseDelayMs: number;
+  private retryMaxDelayMs: number;
+  private requestTimeoutMs: number;
+  private logger: Logger;
+
+  // Scrape health metrics, labelled by API endpoint
+  private scrapeSuccessGauge: Gauge;
+  private scrapeDurationGauge: Gauge;
+  private lastSuccessfulScrapeGauge: Gauge;
+  private scrapeErrorsCounter: Counter;
 
   constructor(config: RackspaceSpotConfig) {
     this.refreshToken = config.refreshToken;
     this.apiBaseUrl = config.apiBaseUrl || DEFAULT_API_BASE_URL;
     this.authBaseUrl = config.authBaseUrl || DEFAULT_AUTH_BASE_URL;
+    this.maxRetries = config.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.retryBaseDelayMs = config.retryBaseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS;
+    this.retryMaxDelayMs = config.retryMaxDelayMs ?? DEFAULT_RETRY_MAX_DELAY_MS;
+    this.requestTimeoutMs = config.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+    this.logger = (config.logger || new Logger()).child({ component: 'api-client' });
+    this.logger.setSecret('refresh_token', this.refreshToken);
+
+    const registry = config.registry || new Registry();
+
+    this.scrapeSuccessGauge = new Gauge({
+      name: 'rackspace_spot_scrape_success',
+      help: 'Whether the last call to a Rackspace Spot API endpoint succeeded (1) or not (0)',
+      labelNames: ['endpoint'],
+      registers: [registry],
+    });
+
+    this.scrapeDurationGauge = new Gauge({
+      name: 'rackspace_spot_scrape_duration_seconds',
+      help: 'Duration of the last call to a Rackspace Spot API endpoint',
+      labelNames: ['endpoint'],
+      registers: [registry],
+    });
+
+    this.lastSuccessfulScrapeGauge = new Gauge({
+      name: 'rackspace_spot_last_successful_scrape_timestamp_seconds',
+      help: 'Unix timestamp of the last successful call to a Rackspace Spot API endpoint',
+      labelNames: ['endpoint'],
+      registers: [registry],
+    });
+
+    this.scrapeErrorsCounter = new Counter({
+      name: 'rackspace_spot_scrape_errors_total',
+      help: 'Failed calls to a Rackspace Spot API endpoint by HTTP status ("none" when no response was received)',
+      labelNames: ['endpoint', 'status'],
+      registers: [registry],
+    });
 
-    // Create the openapi-fetch client
+    // Create the openapi-fetch clients; only the API client authenticates
     this.client = createClient<paths>({ baseUrl: this.apiBaseUrl });
+    this.publicDataClient = createClient<paths>({
+      baseUrl: config.publicDataBaseUrl || DEFAULT_PUBLIC_DATA_BASE_URL,
+    });
 
     // Add authentication middleware
     const authMiddleware: Middleware = {
@@ -55,66 +135,330 @@ export class RackspaceSpotClient {
     if (this.accessToken && Date.now() < this.tokenExpiry - 60000) {
       return;
     }
-    await this.authenticate();
+
+    // Calls made concurrently during a cycle share a single token request
+    if (!this.authenticating) {
+      this.authenticating = this.authenticate().finally(() => {
+        this.authenticating = undefined;
+      });
+    }
+    await this.authenticating;
   }
 
   private async authenticate(): Promise<void> {
-    const response = await fetch(`${this.authBaseUrl}/oauth/token`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-      body: new URLSearchParams({
-        grant_type: 'refresh_token',
-        client_id: PUBLIC_CLIENT_ID,
-        refresh_token: this.refreshToken,
-      }),
-    });
+    let response: Response;
+    try {
+      ({ response } = await this.call('oauth_token', async (signal) => ({
+        response: await fetch(`${this.authBaseUrl}/oauth/token`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/x-www-form-urlencoded',
+          },
+          body: new URLSearchParams({
+            grant_type: 'refresh_token',
+            client_id: PUBLIC_CLIENT_ID,
+            refresh_token: this.refreshToken,
+          }),
+          signal,
+        }),
+      })));
+    } catch (error) {
+      // Already retried; rethrow as a plain error so the API call that triggered authentication doesn't retry it again
+      throw new Error(`Failed to authenticate: ${error instanceof Error ? error.message : String(error)}`);
+    }
 
     if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Failed to authenticate: ${response.status} - ${errorText}`);
+      const body = (await response.json().catch(() => undefined)) as
+        | { error?: unknown; error_description?: unknown }
+        | undefined;
+      this.logger.debug('OAuth error response', { status: response.status, body });
+      const failure = describeFailure(response.status, body?.error, body?.error_description);
+      throw new Error(`Failed to authenticate: ${failure}`);
     }
 
     const data = await response.json() as OAuthTokenResponse;
     // Use id_token as the bearer token (per rackspace-spot-mcp pattern)
     this.accessToken = data.id_token;
+    this.logger.setSecret('id_token', data.id_token);
     this.tokenExpiry = Date.now() + data.expires_in * 1000;
   }
 
-  async listCloudSpaces(namespace: string) {
-    const { data, error } = await this.client.GET('/apis/ngpc.rxt.io/v1/namespaces/{namespace}/cloudspaces', {
-      params: { path: { namespace } },
+  /**
+   * Error for a failed API call, built from the HTTP status and the Kubernetes
+   * Status reason and message. The raw body is logged at debug level only.
+   */
+  private apiError(action: string, response: Response, body: unknown): Error {
+    this.logger.debug('API error response', { status: response.status, body });
+    const status = body as { reason?: unknown; message?: unknown } | undefined;
+    return new Error(`${action}: ${describeFailure(response.status, status?.reason, status?.message)}`);
+  }
+
+  /**
+   * Run an API request, recording its duration and outcome under `endpoint`.
+   *
+   * Each attempt gets its own timeout signal. 5xx, 429, network errors and
+   * timeouts are retried with exponential backoff and jitter, waiting at least
+   * as long as the server asks via Retry-After or Status.details.retryAfterSeconds.
+   * When the server asks for longer than retryMaxDelayMs, the call fails
+   * instead of retrying early.
+   */
+  private async call<T extends { error?: unknown; response: Response }>(
+    endpoint: string,
+    request: (signal: AbortSignal) => Promise<T>
+  ): Promise<T> {
+    const startedAt = performance.now();
+
+    for (let attempt = 0; ; attempt++) {
+      let result: T;
+      try {
+        result = await request(AbortSignal.timeout(this.requestTimeoutMs));
+      } catch (error) {
+        if (attempt < this.maxRetries && isRetryableError(error)) {
+          await this.backoff(endpoint, attempt, { error });
+          continue;
+        }
+        this.recordScrape(endpoint, startedAt, undefined, error);
+        throw error;
+      }
+
+      const status = result.response.status;
+      if (attempt < this.maxRetries && isRetryableStatus(status)) {
+        const retryAfterSeconds =
+          parseRetryAfter(result.response.headers.get('Retry-After')) ?? statusRetryAfterSeconds(result.error);
+        if (retryAfterSeconds === undefined || retryAfterSeconds * 1000 <= this.retryMaxDelayMs) {
+          await this.backoff(endpoint, attempt, { status }, retryAfterSeconds);
+          continue;
+        }
+        this.logger.warn('Not retrying API call; the server asked to wait longer than the maximum retry delay', {
+          endpoint,
+          status,
+          retry_after_seconds: retryAfterSeconds,
+        });
+      }
+
+      this.recordScrape(endpoint, startedAt, status);
+      return result;
+    }
+  }
+
+  /**
+   * Backoff before retry number `attempt` (0-based): full jitter over an
+   * exponentially growing window capped at retryMaxDelayMs, but never less
+   * than the server's requested delay.
+   */
+  private retryDelayMs(attempt: number, retryAfterSeconds?: number): number {
+    const backoff = Math.random() * Math.min(this.retryBaseDelayMs * 2 ** attempt, this.retryMaxDelayMs);
+    const requested = retryAfterSeconds === undefined ? 0 : retryAfterSeconds * 1000;
+    return Math.max(backoff, requested);
+  }
+
+  private async backoff(
+    endpoint: string,
+    attempt: number,
+    outcome: { status?: number; error?: unknown },
+    retryAfterSeconds?: number
+  ): Promise<void> {
+    const delayMs = this.retryDelayMs(attempt, retryAfterSeconds);
+    this.logger.warn('Retrying API call', {
+      endpoint,
+      status: outcome.status ?? 'none',
+      error: outcome.error,
+      attempt: attempt + 1,
+      delay_ms: Math.round(delayMs),
     });
+    await sleep(delayMs);
+  }
+
+  private recordScrape(endpoint: string, startedAt: number, status?: number, error?: unknown): void {
+    const success = status !== undefined && status >= 200 && status < 300;
+    const durationSeconds = (performance.now() - startedAt) / 1000;
+
+    const fields = { endpoint, status: status ?? 'none', duration_seconds: durationSeconds, error };
+    if (success) {
+      this.logger.debug('API call succeeded', fields);
+    } else {
+      this.logger.warn('API call failed', fields);
+    }
+
+    this.scrapeDurationGauge.set({ endpoint }, durationSeconds);
+    this.scrapeSuccessGauge.set({ endpoint }, success ? 1 : 0);
+    if (success) {
+      this.lastSuccessfulScrapeGauge.set({ endpoint }, Date.now() / 1000);
+    } else {
+      this.scrapeErrorsCounter.inc({ endpoint, status: status === undefined ? 'none' : String(status) });
+    }
+  }
+
+  async listCloudSpaces(namespace: string) {
+    const { data, error, response } = await this.call('cloudspaces', (signal) =>
+      this.client.GET('/apis/ngpc.rxt.io/v1/namespaces/{namespace}/cloudspaces', {
+        params: { path: { namespace } },
+        signal,
+      })
+    );
 
     if (error) {
-      throw new Error(`Failed to list cloudspaces: ${JSON.stringify(error)}`);
+      throw this.apiError('Failed to list cloudspaces', response, error);
     }
 
     return data;
   }
 
   async listSpotNodePools(namespace: string) {
-    const { data, error } = await this.client.GET('/apis/ngpc.rxt.io/v1/namespaces/{namespace}/spotnodepools', {
-      params: { path: { namespace } },
-    });
+    const { data, error, response } = await this.call('spotnodepools', (signal) =>
+      this.client.GET('/apis/ngpc.rxt.io/v1/namespaces/{namespace}/spotnodepools', {
+        params: { path: { namespace } },
+        signal,
+      })
+    );
 
     if (error) {
-      throw new Error(`Failed to list spot node pools: ${JSON.stringify(error)}`);
+      throw this.apiError('Failed to list spot node pools', response, error);
     }
 
     return data;
   }
 
   async listOnDemandNodePools(namespace: string) {
-    const { data, error } = await this.client.GET('/apis/ngpc.rxt.io/v1/namespaces/{namespace}/ondemandnodepools', {
-      params: { path: { namespace } },
-    });
+    const { data, error, response } = await this.call('ondemandnodepools', (signal) =>
+      this.client.GET('/apis/ngpc.rxt.io/v1/namespaces/{namespace}/ondemandnodepools', {
+        params: { path: { namespace } },
+        signal,
+      })
+    );
 
     if (error) {
-      throw new Error(`Failed to list on-demand node pools: ${JSON.stringify(error)}`);
+      throw this.apiError('Failed to list on-demand node pools', response, error);
     }
 
     return data;
   }
+
+  async listRegions() {
+    const { data, error, response } = await this.call('regions', (signal) =>
+      this.client.GET('/apis/ngpc.rxt.io/v1/regions', { signal })
+    );
+
+    if (error) {
+      throw this.apiError('Failed to list regions', response, error);
+    }
+
+    return data;
+  }
+
+  async listServerClasses() {
+    const { data, error, response } = await this.call('serverclasses', (signal) =>
+      this.client.GET('/apis/ngpc.rxt.io/v1/serverclasses', { signal })
+    );
+
+    if (error) {
+      throw this.apiError('Failed to list server classes', response, error);
+    }
+
+    return data;
+  }
+
+  async getPriceHistory(serverClass: string) {
+    const { data, error, response } = await this.call('price_history', (signal) =>
+      this.publicDataClient.GET('/history/{server_class}', {
+        params: { path: { server_class: serverClass } },
+        signal,
+      })
+    );
+
+    if (error) {
+      throw this.apiError(`Failed to get price history for ${serverClass}`, response, error);
+    }
+
+    return data;
+  }
+
+  async getPercentiles() {
+    const { data, error, response } = await this.call('percentiles', (signal) =>
+      this.publicDataClient.GET('/percentiles.json', { signal })
+    );
+
+    if (error) {
+      throw this.apiError('Failed to get price percentiles', response, error);
+    }
+
+    return data;
+  }
+
+  async getComparablePrices() {
+    const { data, error, response } = await this.call('comparable_prices', (signal) =>
+      this.publicDataClient.GET('/comparable_prices.json', { signal })
+    );
+
+    if (error) {
+      throw this.apiError('Failed to get comparable prices', response, error);
+    }
+
+    return data;
+  }
+
+  /**
+   * List organizations, following `next` until every page has been read.
+   */
+  async listOrganizations() {
+    const organizations: NonNullable<OrganizationList['organizations']> = [];
+    let search = '';
+
+    for (let page = 1; ; page++) {
+      const { data, error, response } = await this.call('organizations', (signal) =>
+        this.client.GET('/apis/auth.ngpc.rxt.io/v1/organizations', {
+          // The spec leaves out the pagination parameters, so pass on the query string of `next` as is
+          querySerializer: () => search,
+          signal,
+        })
+      );
+
+      if (error) {
+        throw this.apiError('Failed to list organizations', response, error);
+      }
+
+      organizations.push(...(data?.organizations || []));
+      if (!data?.next) {
+        return { ...data, organizations };
+      }
+
+      const nextSearch = new URL(data.next, this.apiBaseUrl).search;
+      if (page >= MAX_ORGANIZATION_PAGES || nextSearch === search) {
+        throw new Error(`Failed to list organizations: pagination did not end after page ${page}`);
+      }
+      search = nextSearch;
+    }
+  }
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+// fetch rejects with a TypeError on network failures and a TimeoutError when the signal times out
+function isRetryableError(error: unknown): boolean {
+  return error instanceof TypeError || (error instanceof Error && error.name === 'TimeoutError');
+}
+
+// Kubernetes APIs return a Status object whose details may say how long to wait before retrying
+function statusRetryAfterSeconds(error: unknown): number | undefined {
+  const retryAfterSeconds = (error as { details?: { retryAfterSeconds?: unknown } } | undefined)?.details
+    ?.retryAfterSeconds;
+  return typeof retryAfterSeconds === 'number' ? retryAfterSeconds : undefined;
+}
+
+// e.g. "403 Forbidden: cloudspaces is forbidden"
+function describeFailure(status: number, reason: unknown, message: unknown): string {
+  let description = String(status);
+  if (typeof reason === 'string' && reason !== '') {
+    description += ` ${reason}`;
+  }
+  if (typeof message === 'string' && message !== '') {
+    description += `: ${message}`;
+  }
+  return description;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
 }
@@ -0,0 +1,37 @@
+/**
+ * Runs collection cycles so that concurrent callers share a single cycle,
+ * and scrape-driven callers can reuse data that is still fresh enough.
+ */
+export class CollectionRunner<T> {
+  private collect: () => Promise<T>;
+  private inFlight: Promise<T> | undefined;
+  private lastCompletedAt: number | undefined;
+
+  constructor(collect: () => Promise<T>) {
+    this.collect = collect;
+  }
+
+  /**
+   * Start a collection cycle, or join the one already in progress.
+   */
+  run(): Promise<T> {
+    if (!this.inFlight) {
+      this.inFlight = this.collect().finally(() => {
+        this.lastCompletedAt = Date.now();
+        this.inFlight = undefined;
+      });
+    }
+    return this.inFlight;
+  }
+
+  /**
+   * Collect unless the last cycle completed less than `minAgeMs` ago. A cycle
+   * already in progress is joined rather than waited out and repeated.
+   */
+  async refresh(minAgeMs: number): Promise<void> {
+    if (!this.inFlight && this.lastCompletedAt !== undefined && Date.now() - this.lastCompletedAt < minAgeMs) {
+      return;
+    }
+    await this.run();
+  }
+}
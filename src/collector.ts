@@ -1,90 +1,920 @@
 import { Registry, Gauge } from 'prom-client';
 import { RackspaceSpotClient } from './api-client';
 import type { components } from './api-types';
+import { Logger, runWithLogContext } from './logger';
+import { parseDuration, parsePrice, parseTimestamp } from './parse';
 
 type CloudSpace = components['schemas']['io.rxt.ngpc.v1.CloudSpace'];
 type SpotNodePool = components['schemas']['io.rxt.ngpc.v1.SpotNodePool'];
 type OnDemandNodePool = components['schemas']['io.rxt.ngpc.v1.OnDemandNodePool'];
+type ServerClass = components['schemas']['io.rxt.ngpc.v1.ServerClass'];
+type Region = components['schemas']['io.rxt.ngpc.v1.Region'];
+
+type PriceHistory = Awaited<ReturnType<RackspaceSpotClient['getPriceHistory']>>;
+type OrganizationList = NonNullable<Awaited<ReturnType<RackspaceSpotClient['listOrganizations']>>>;
+
+// Special organization value that collects every organization the token can access
+export const ALL_ORGANIZATIONS = 'all';
+
+// Condition statuses exported per condition, mirroring kube-state-metrics
+const CONDITION_STATUSES = ['True', 'False', 'Unknown'];
+
+// Known cloudspace states exported as state sets; unexpected values get their own series
+const CLOUDSPACE_PHASES = ['Pending', 'Provisioning', 'Ready', 'Upgrading', 'Deleting', 'Failed'];
+const CLOUDSPACE_HEALTH_STATES = ['Healthy', 'Unhealthy', 'Unknown'];
+const CLOUDSPACE_UPGRADE_PHASES = ['Pending', 'InProgress', 'Completed', 'Failed'];
+
+// Percentiles reported by /percentiles.json, keyed by the percentile label value
+const PRICE_PERCENTILES = ['20', '50', '80'] as const;
+
+// Average number of hours in a month (8760 / 12), used for monthly cost estimates
+const HOURS_PER_MONTH = 730;
+
+const DEFAULT_PRICE_HISTORY_WINDOWS = ['1h', '24h', '168h'];
+
+// Parts of a collection cycle that succeed or fail independently
+export const COLLECTOR_SECTIONS = [
+  'organizations',
+  'cloudspaces',
+  'spot_nodepools',
+  'ondemand_nodepools',
+  'spot_bid_margins',
+  'nodepool_fulfilment',
+  'nodepool_metadata',
+  'costs',
+  'regions',
+  'serverclasses',
+  'price_percentiles',
+  'comparable_prices',
+  'price_history',
+] as const;
+
+export type CollectorSection = (typeof COLLECTOR_SECTIONS)[number];
+
+export interface CollectionResult {
+  succeeded: CollectorSection[];
+  failed: { section: CollectorSection; error: unknown }[];
+}
+
+// Outcome history of a section; times are Unix milliseconds
+export interface SectionStatus {
+  lastSuccessAt?: number;
+  lastErrorAt?: number;
+  lastError?: string;
+}
+
+export interface RackspaceSpotCollectorOptions {
+  // Server classes to export price history for; defaults to those used by node pools
+  priceHistoryServerClasses?: string[];
+  // Rolling windows (Go durations) for price history min/max/avg
+  priceHistoryWindows?: string[];
+  // Custom node pool label keys to expose as `label_<key>` Prometheus labels
+  nodePoolLabels?: string[];
+  logger?: Logger;
+}
+
+export interface Organization {
+  id: string;
+  name: string;
+  namespace: string;
+}
+
+// Kinds of custom node metadata a node pool can request
+const CUSTOM_METADATA_TYPES = ['label', 'annotation', 'taint'] as const;
+
+// A namespaced resource together with the organization it was listed from
+interface OrganizationResource<T> {
+  organization: Organization;
+  resource: T;
+}
+
+// A spot or on-demand node pool, for metrics that cover both pool kinds
+type TypedNodePool =
+  | (OrganizationResource<SpotNodePool> & { poolType: 'spot' })
+  | (OrganizationResource<OnDemandNodePool> & { poolType: 'ondemand' });
+
+interface NodePoolCost {
+  organization: Organization;
+  cloudspace: string;
+  nodepool: string;
+  serverclass: string;
+  poolType: 'spot' | 'ondemand';
+  // Undefined when the pool's server class has no usable price
+  costPerHour: number | undefined;
+}
 
 export class RackspaceSpotCollector {
   private client: RackspaceSpotClient;
   private registry: Registry;
-  private organization: string;
+  private organizations: string[];
+  private priceHistoryServerClasses: string[];
+  private priceHistoryWindows: { label: string; seconds: number }[];
+  private nodePoolLabels: { key: string; labelName: string }[];
+  private logger: Logger;
+
+  private sectionStatus = new Map<CollectorSection, SectionStatus>();
+
+  // Organization details from the last successful lookup, reused when a lookup fails so labels stay stable
+  private knownOrganizations: OrganizationList['organizations'] | undefined;
+
+  // When each outstanding pending allocation was first seen, keyed by namespace/cloudspace/allocation
+  private pendingAllocationFirstSeen = new Map<string, number>();
 
   // CloudSpace metrics
   private cloudspaceNodesGauge: Gauge;
+  private cloudspaceInfoGauge: Gauge;
+  private cloudspaceKubernetesVersionInfoGauge: Gauge;
+  private cloudspaceVersionDriftGauge: Gauge;
+  private cloudspaceCreatedGauge: Gauge;
+  private cloudspaceFirstReadyGauge: Gauge;
+  private cloudspaceTimeToFirstReadyGauge: Gauge;
+  private cloudspaceConditionGauge: Gauge;
+  private cloudspaceConditionLastTransitionGauge: Gauge;
+  private cloudspacePhaseGauge: Gauge;
+  private cloudspaceHealthGauge: Gauge;
+  private cloudspaceUpgradePhaseGauge: Gauge;
+  private cloudspacePhaseReasonGauge: Gauge;
+  private cloudspaceServerInfoGauge: Gauge;
+  private cloudspaceServersGauge: Gauge;
+  private cloudspaceServersWithErrorGauge: Gauge;
+  private pendingAllocationRequestedGauge: Gauge;
+  private pendingAllocationAllocatedGauge: Gauge;
+  private pendingAllocationOutstandingGauge: Gauge;
+  private oldestPendingAllocationAgeGauge: Gauge;
 
   // SpotNodePool metrics
   private spotNodePoolDesiredGauge: Gauge;
   private spotNodePoolWonCountGauge: Gauge;
+  private spotNodePoolBidPriceGauge: Gauge;
+  private spotNodePoolBidMarginGauge: Gauge;
+  private spotNodePoolBidMarginRatioGauge: Gauge;
+  private spotNodePoolAutoscalingEnabledGauge: Gauge;
+  private spotNodePoolAutoscalingMinNodesGauge: Gauge;
+  private spotNodePoolAutoscalingMaxNodesGauge: Gauge;
+  private spotNodePoolAutoscalingHeadroomRatioGauge: Gauge;
 
   // OnDemandNodePool metrics
   private onDemandNodePoolDesiredGauge: Gauge;
   private onDemandNodePoolReservedCountGauge: Gauge;
 
-  constructor(client: RackspaceSpotClient, organization: string, registry?: Registry) {
+  // Region metrics
+  private regionInfoGauge: Gauge;
+
+  // ServerClass metrics
+  private serverClassMarketPriceGauge: Gauge;
+  private serverClassHammerPriceGauge: Gauge;
+  private serverClassAvailableGauge: Gauge;
+  private serverClassCapacityGauge: Gauge;
+  private serverClassReservedGauge: Gauge;
+  private serverClassLastAuctionGauge: Gauge;
+  private serverClassAvailabilityInfoGauge: Gauge;
+  private serverClassDeprecatedGauge: Gauge;
+  private serverClassPricePercentileGauge: Gauge;
+  private serverClassHyperscalerAveragePriceGauge: Gauge;
+  private serverClassComparablePriceGauge: Gauge;
+
+  // Node pool fulfilment metrics
+  private nodePoolFulfilmentRatioGauge: Gauge;
+  private nodePoolShortfallGauge: Gauge;
+
+  // Node pool custom metadata metrics
+  private nodePoolCustomMetadataRequestedGauge: Gauge;
+  private nodePoolCustomMetadataAppliedGauge: Gauge;
+  private nodePoolLabelsGauge: Gauge;
+
+  // Cost metrics
+  private nodePoolCostPerHourGauge: Gauge;
+  private nodePoolCostPerMonthGauge: Gauge;
+  private cloudspaceCostPerHourGauge: Gauge;
+  private cloudspaceCostPerMonthGauge: Gauge;
+  private organizationCostPerHourGauge: Gauge;
+  private organizationCostPerMonthGauge: Gauge;
+  private cloudspaceUnpricedNodePoolsGauge: Gauge;
+
+  // Price history metrics
+  private priceHistoryLatestHammerPriceGauge: Gauge;
+  private priceHistoryLatestTimestampGauge: Gauge;
+  private priceHistoryMinGauge: Gauge;
+  private priceHistoryMaxGauge: Gauge;
+  private priceHistoryAvgGauge: Gauge;
+  private priceHistoryStaleGauge: Gauge;
+
+  // Server classes that price history series were exported for in the last cycle
+  private priceHistoryClasses = new Set<string>();
+
+  // Collection health metrics
+  private sectionStaleGauge: Gauge;
+  private sectionLastSuccessGauge: Gauge;
+
+  constructor(
+    client: RackspaceSpotClient,
+    organizations: string | string[],
+    registry?: Registry,
+    options: RackspaceSpotCollectorOptions = {}
+  ) {
     this.client = client;
-    this.organization = organization;
+    this.organizations = Array.isArray(organizations) ? organizations : [organizations];
     this.registry = registry || new Registry();
+    this.priceHistoryServerClasses = options.priceHistoryServerClasses || [];
+    this.logger = (options.logger || new Logger()).child({ component: 'collector' });
+    this.priceHistoryWindows = (options.priceHistoryWindows || DEFAULT_PRICE_HISTORY_WINDOWS).map((window) => {
+      const seconds = parseDuration(window);
+      if (seconds === undefined || seconds <= 0) {
+        throw new Error(`Invalid price history window: ${window}`);
+      }
+      return { label: window, seconds };
+    });
+    this.nodePoolLabels = (options.nodePoolLabels || []).map((key) => ({ key, labelName: nodePoolLabelName(key) }));
+    const labelNames = this.nodePoolLabels.map(({ labelName }) => labelName);
+    const duplicate = labelNames.find((labelName, index) => labelNames.indexOf(labelName) !== index);
+    if (duplicate) {
+      throw new Error(`Duplicate node pool label: ${duplicate}`);
+    }
 
     // Initialize metrics
     this.cloudspaceNodesGauge = new Gauge({
       name: 'rackspace_spot_cloudspace_nodes_total',
       help: 'Total number of nodes in a cloudspace',
-      labelNames: ['namespace', 'cloudspace', 'cloudspace_region'],
+      labelNames: ['namespace', 'organization_id', 'organization_name', 'cloudspace', 'cloudspace_region'],
+      registers: [this.registry],
+    });
+
+    this.cloudspaceInfoGauge = new Gauge({
+      name: 'rackspace_spot_cloudspace_info',
+      help: 'Information about a cloudspace (always 1)',
+      labelNames: [
+        'namespace',
+        'organization_id',
+        'organization_name',
+        'cloudspace',
+        'cloudspace_region',
+        'cni',
+        'ha_control_plane',
+        'deployment_type',
+      ],
+      registers: [this.registry],
+    });
+
+    this.cloudspaceKubernetesVersionInfoGauge = new Gauge({
+      name: 'rackspace_spot_cloudspace_kubernetes_version_info',
+      help: 'Desired and current Kubernetes versions of a cloudspace (always 1)',
+      labelNames: ['namespace', 'organization_id', 'organization_name', 'cloudspace', 'desired_version', 'current_version'],
+      registers: [this.registry],
+    });
+
+    this.cloudspaceVersionDriftGauge = new Gauge({
+      name: 'rackspace_spot_cloudspace_version_drift',
+      help: 'Whether the current Kubernetes version of a cloudspace differs from the desired version (1) or not (0)',
+      labelNames: ['namespace', 'organization_id', 'organization_name', 'cloudspace'],
+      registers: [this.registry],
+    });
+
+    this.cloudspaceCreatedGauge = new Gauge({
+      name: 'rackspace_spot_cloudspace_created_timestamp_seconds',
+      help: 'Unix timestamp when a cloudspace was created',
+      labelNames: ['namespace', 'organization_id', 'organization_name', 'cloudspace'],
+      registers: [this.registry],
+    });
+
+    this.cloudspaceFirstReadyGauge = new Gauge({
+      name: 'rackspace_spot_cloudspace_first_ready_timestamp_seconds',
+      help: 'Unix timestamp when a cloudspace first became ready',
+      labelNames: ['namespace', 'organization_id', 'organization_name', 'cloudspace'],
+      registers: [this.registry],
+    });
+
+    this.cloudspaceTimeToFirstReadyGauge = new Gauge({
+      name: 'rackspace_spot_cloudspace_time_to_first_ready_seconds',
+      help: 'Seconds between a cloudspace being created and first becoming ready',
+      labelNames: ['namespace', 'organization_id', 'organization_name', 'cloudspace'],
+      registers: [this.registry],
+    });
+
+    this.cloudspaceConditionGauge = new Gauge({
+      name: 'rackspace_spot_cloudspace_condition',
+      help: 'Status of a cloudspace condition; one series per status, 1 for the current status',
+      labelNames: [
+        'namespace',
+        'organization_id',
+        'organization_name',
+        'cloudspace',
+        'type',
+        'status',
+        'reason',
+        'severity',
+      ],
+      registers: [this.registry],
+    });
+
+    this.cloudspaceConditionLastTransitionGauge = new Gauge({
+      name: 'rackspace_spot_cloudspace_condition_last_transition_timestamp_seconds',
+      help: 'Unix timestamp of the last status transition of a cloudspace condition',
+      labelNames: ['namespace', 'organization_id', 'organization_name', 'cloudspace', 'type'],
+      registers: [this.registry],
+    });
+
+    this.cloudspacePhaseGauge = new Gauge({
+      name: 'rackspace_spot_cloudspace_phase',
+      help: 'Current phase of a cloudspace; one series per phase, 1 for the active phase',
+      labelNames: ['namespace', 'organization_id', 'organization_name', 'cloudspace', 'phase'],
+      registers: [this.registry],
+    });
+
+    this.cloudspaceHealthGauge = new Gauge({
+      name: 'rackspace_spot_cloudspace_health',
+      help: 'Current health of a cloudspace; one series per health state, 1 for the active state',
+      labelNames: ['namespace', 'organization_id', 'organization_name', 'cloudspace', 'health'],
+      registers: [this.registry],
+    });
+
+    this.cloudspaceUpgradePhaseGauge = new Gauge({
+      name: 'rackspace_spot_cloudspace_upgrade_phase',
+      help: 'Current upgrade phase of a cloudspace; one series per phase, 1 for the active phase',
+      labelNames: ['namespace', 'organization_id', 'organization_name', 'cloudspace', 'upgrade_phase'],
+      registers: [this.registry],
+    });
+
+    this.cloudspacePhaseReasonGauge = new Gauge({
+      name: 'rackspace_spot_cloudspace_phase_reason_info',
+      help: 'Reason a cloudspace is in its current phase (always 1)',
+      labelNames: ['namespace', 'organization_id', 'organization_name', 'cloudspace', 'phase', 'reason'],
+      registers: [this.registry],
+    });
+
+    this.cloudspaceServerInfoGauge = new Gauge({
+      name: 'rackspace_spot_cloudspace_server_info',
+      help: 'Information about a server assigned to a cloudspace (always 1)',
+      labelNames: [
+        'namespace',
+        'organization_id',
+        'organization_name',
+        'cloudspace',
+        'server',
+        'state',
+        'cluster_role',
+        'serverclass',
+        'server_type',
+        'has_error',
+      ],
+      registers: [this.registry],
+    });
+
+    this.cloudspaceServersGauge = new Gauge({
+      name: 'rackspace_spot_cloudspace_servers',
+      help: 'Number of servers assigned to a cloudspace by state, cluster role and server class',
+      labelNames: [
+        'namespace',
+        'organization_id',
+        'organization_name',
+        'cloudspace',
+        'state',
+        'cluster_role',
+        'serverclass',
+      ],
+      registers: [this.registry],
+    });
+
+    this.cloudspaceServersWithErrorGauge = new Gauge({
+      name: 'rackspace_spot_cloudspace_servers_with_error',
+      help: 'Number of servers assigned to a cloudspace that report an error',
+      labelNames: ['namespace', 'organization_id', 'organization_name', 'cloudspace'],
+      registers: [this.registry],
+    });
+
+    this.pendingAllocationRequestedGauge = new Gauge({
+      name: 'rackspace_spot_cloudspace_pending_allocation_requested',
+      help: 'Number of servers requested by a pending allocation',
+      labelNames: [
+        'namespace',
+        'organization_id',
+        'organization_name',
+        'cloudspace',
+        'allocation',
+        'bid_name',
+        'bid_type',
+        'serverclass',
+      ],
+      registers: [this.registry],
+    });
+
+    this.pendingAllocationAllocatedGauge = new Gauge({
+      name: 'rackspace_spot_cloudspace_pending_allocation_allocated',
+      help: 'Number of servers allocated so far to a pending allocation',
+      labelNames: [
+        'namespace',
+        'organization_id',
+        'organization_name',
+        'cloudspace',
+        'allocation',
+        'bid_name',
+        'bid_type',
+        'serverclass',
+      ],
+      registers: [this.registry],
+    });
+
+    this.pendingAllocationOutstandingGauge = new Gauge({
+      name: 'rackspace_spot_cloudspace_pending_allocation_outstanding',
+      help: 'Number of servers of a pending allocation still waiting to be allocated',
+      labelNames: [
+        'namespace',
+        'organization_id',
+        'organization_name',
+        'cloudspace',
+        'allocation',
+        'bid_name',
+        'bid_type',
+        'serverclass',
+      ],
+      registers: [this.registry],
+    });
+
+    this.oldestPendingAllocationAgeGauge = new Gauge({
+      name: 'rackspace_spot_cloudspace_oldest_pending_allocation_age_seconds',
+      help: 'Seconds since the exporter first saw the oldest outstanding pending allocation of a cloudspace (0 when none)',
+      labelNames: ['namespace', 'organization_id', 'organization_name', 'cloudspace'],
       registers: [this.registry],
     });
 
     this.spotNodePoolDesiredGauge = new Gauge({
       name: 'rackspace_spot_spotnodepool_desired',
       help: 'Desired number of nodes in a spot node pool',
-      labelNames: ['namespace', 'cloudspace', 'nodepool', 'serverclass'],
+      labelNames: ['namespace', 'organization_id', 'organization_name', 'cloudspace', 'nodepool', 'serverclass'],
       registers: [this.registry],
     });
 
     this.spotNodePoolWonCountGauge = new Gauge({
       name: 'rackspace_spot_spotnodepool_won_count',
       help: 'Number of nodes won in a spot node pool',
-      labelNames: ['namespace', 'cloudspace', 'nodepool', 'serverclass', 'bid_status'],
+      labelNames: ['namespace', 'organization_id', 'organization_name', 'cloudspace', 'nodepool', 'serverclass', 'bid_status'],
+      registers: [this.registry],
+    });
+
+    this.spotNodePoolBidPriceGauge = new Gauge({
+      name: 'rackspace_spot_spotnodepool_bid_price',
+      help: 'Bid price per hour of a spot node pool (USD)',
+      labelNames: ['namespace', 'organization_id', 'organization_name', 'cloudspace', 'nodepool', 'serverclass'],
+      registers: [this.registry],
+    });
+
+    this.spotNodePoolBidMarginGauge = new Gauge({
+      name: 'rackspace_spot_spotnodepool_bid_margin',
+      help: 'Bid price minus the server class market price per hour (USD); negative when bidding under the market',
+      labelNames: ['namespace', 'organization_id', 'organization_name', 'cloudspace', 'nodepool', 'serverclass'],
+      registers: [this.registry],
+    });
+
+    this.spotNodePoolBidMarginRatioGauge = new Gauge({
+      name: 'rackspace_spot_spotnodepool_bid_margin_ratio',
+      help: 'Bid margin as a ratio of the server class market price; negative when bidding under the market',
+      labelNames: ['namespace', 'organization_id', 'organization_name', 'cloudspace', 'nodepool', 'serverclass'],
+      registers: [this.registry],
+    });
+
+    this.spotNodePoolAutoscalingEnabledGauge = new Gauge({
+      name: 'rackspace_spot_spotnodepool_autoscaling_enabled',
+      help: 'Whether autoscaling is enabled for a spot node pool (1) or not (0)',
+      labelNames: ['namespace', 'organization_id', 'organization_name', 'cloudspace', 'nodepool', 'serverclass'],
+      registers: [this.registry],
+    });
+
+    this.spotNodePoolAutoscalingMinNodesGauge = new Gauge({
+      name: 'rackspace_spot_spotnodepool_autoscaling_min_nodes',
+      help: 'Minimum number of nodes of an autoscaling spot node pool',
+      labelNames: ['namespace', 'organization_id', 'organization_name', 'cloudspace', 'nodepool', 'serverclass'],
+      registers: [this.registry],
+    });
+
+    this.spotNodePoolAutoscalingMaxNodesGauge = new Gauge({
+      name: 'rackspace_spot_spotnodepool_autoscaling_max_nodes',
+      help: 'Maximum number of nodes of an autoscaling spot node pool',
+      labelNames: ['namespace', 'organization_id', 'organization_name', 'cloudspace', 'nodepool', 'serverclass'],
+      registers: [this.registry],
+    });
+
+    this.spotNodePoolAutoscalingHeadroomRatioGauge = new Gauge({
+      name: 'rackspace_spot_spotnodepool_autoscaling_headroom_ratio',
+      help: 'Share of the autoscaling maximum not yet won ((maxNodes - wonCount) / maxNodes); 0 at or above the ceiling',
+      labelNames: ['namespace', 'organization_id', 'organization_name', 'cloudspace', 'nodepool', 'serverclass'],
       registers: [this.registry],
     });
 
     this.onDemandNodePoolDesiredGauge = new Gauge({
       name: 'rackspace_spot_ondemandnodepool_desired',
       help: 'Desired number of nodes in an on-demand node pool',
-      labelNames: ['namespace', 'cloudspace', 'nodepool', 'serverclass'],
+      labelNames: ['namespace', 'organization_id', 'organization_name', 'cloudspace', 'nodepool', 'serverclass'],
       registers: [this.registry],
     });
 
     this.onDemandNodePoolReservedCountGauge = new Gauge({
       name: 'rackspace_spot_ondemandnodepool_reserved_count',
       help: 'Number of reserved nodes in an on-demand node pool',
-      labelNames: ['namespace', 'cloudspace', 'nodepool', 'serverclass', 'reserved_status'],
+      labelNames: ['namespace', 'organization_id', 'organization_name', 'cloudspace', 'nodepool', 'serverclass', 'reserved_status'],
+      registers: [this.registry],
+    });
+
+    this.regionInfoGauge = new Gauge({
+      name: 'rackspace_spot_region_info',
+      help: 'Information about a Rackspace Spot region (always 1)',
+      labelNames: ['region', 'country', 'description', 'provider_type', 'provider_region_name'],
+      registers: [this.registry],
+    });
+
+    this.serverClassMarketPriceGauge = new Gauge({
+      name: 'rackspace_spot_serverclass_market_price_per_hour',
+      help: 'Current spot market price per hour for a server class (USD)',
+      labelNames: ['serverclass', 'region', 'category', 'flavor_type'],
+      registers: [this.registry],
+    });
+
+    this.serverClassHammerPriceGauge = new Gauge({
+      name: 'rackspace_spot_serverclass_hammer_price_per_hour',
+      help: 'Hammer price per hour of the last auction for a server class (USD)',
+      labelNames: ['serverclass', 'region', 'category', 'flavor_type'],
+      registers: [this.registry],
+    });
+
+    this.serverClassAvailableGauge = new Gauge({
+      name: 'rackspace_spot_serverclass_available',
+      help: 'Number of servers of a server class available to be provisioned',
+      labelNames: ['serverclass', 'region', 'category', 'flavor_type'],
+      registers: [this.registry],
+    });
+
+    this.serverClassCapacityGauge = new Gauge({
+      name: 'rackspace_spot_serverclass_capacity',
+      help: 'Total number of servers of a server class, both online and offline',
+      labelNames: ['serverclass', 'region', 'category', 'flavor_type'],
+      registers: [this.registry],
+    });
+
+    this.serverClassReservedGauge = new Gauge({
+      name: 'rackspace_spot_serverclass_reserved',
+      help: 'Number of servers of a server class currently in use by organizations',
+      labelNames: ['serverclass', 'region', 'category', 'flavor_type'],
+      registers: [this.registry],
+    });
+
+    this.serverClassLastAuctionGauge = new Gauge({
+      name: 'rackspace_spot_serverclass_last_auction',
+      help: 'Last auction value reported for a server class (status.lastAuction)',
+      labelNames: ['serverclass', 'region', 'category', 'flavor_type'],
+      registers: [this.registry],
+    });
+
+    this.serverClassAvailabilityInfoGauge = new Gauge({
+      name: 'rackspace_spot_serverclass_availability_info',
+      help: 'Availability status of a server class (always 1)',
+      labelNames: ['serverclass', 'region', 'category', 'flavor_type', 'availability'],
+      registers: [this.registry],
+    });
+
+    this.serverClassDeprecatedGauge = new Gauge({
+      name: 'rackspace_spot_serverclass_deprecated',
+      help: 'Whether a server class is deprecated (1) or not (0)',
+      labelNames: ['serverclass', 'region', 'category', 'flavor_type'],
       registers: [this.registry],
     });
+
+    this.serverClassPricePercentileGauge = new Gauge({
+      name: 'rackspace_spot_serverclass_price_percentile',
+      help: 'Spot market price percentile for a server class (USD)',
+      labelNames: ['percentile', 'region', 'serverclass', 'category'],
+      registers: [this.registry],
+    });
+
+    this.serverClassHyperscalerAveragePriceGauge = new Gauge({
+      name: 'rackspace_spot_serverclass_hyperscaler_average_price',
+      help: 'Average price per hour of comparable hyperscaler instances for a server class (USD)',
+      labelNames: ['region', 'serverclass'],
+      registers: [this.registry],
+    });
+
+    this.serverClassComparablePriceGauge = new Gauge({
+      name: 'rackspace_spot_serverclass_comparable_price',
+      help: 'Price per hour of a comparable hyperscaler instance for a server class (USD)',
+      labelNames: ['region', 'serverclass', 'cloud', 'comparable_class'],
+      registers: [this.registry],
+    });
+
+    this.nodePoolFulfilmentRatioGauge = new Gauge({
+      name: 'rackspace_spot_nodepool_fulfilment_ratio',
+      help: 'Won (spot) or reserved (on-demand) nodes as a ratio of the desired count; 1 when nothing is desired',
+      labelNames: ['namespace', 'organization_id', 'organization_name', 'cloudspace', 'nodepool', 'serverclass', 'pool_type'],
+      registers: [this.registry],
+    });
+
+    this.nodePoolShortfallGauge = new Gauge({
+      name: 'rackspace_spot_nodepool_shortfall',
+      help: 'Number of desired nodes not yet won (spot) or reserved (on-demand)',
+      labelNames: ['namespace', 'organization_id', 'organization_name', 'cloudspace', 'nodepool', 'serverclass', 'pool_type'],
+      registers: [this.registry],
+    });
+
+    this.nodePoolCustomMetadataRequestedGauge = new Gauge({
+      name: 'rackspace_spot_nodepool_custom_metadata_requested',
+      help: 'Number of custom labels, annotations or taints requested for the nodes of a node pool',
+      labelNames: ['namespace', 'organization_id', 'organization_name', 'cloudspace', 'nodepool', 'pool_type', 'metadata_type'],
+      registers: [this.registry],
+    });
+
+    this.nodePoolCustomMetadataAppliedGauge = new Gauge({
+      name: 'rackspace_spot_nodepool_custom_metadata_applied',
+      help: 'Number of requested custom labels, annotations or taints applied to the nodes of a node pool',
+      labelNames: ['namespace', 'organization_id', 'organization_name', 'cloudspace', 'nodepool', 'pool_type', 'metadata_type'],
+      registers: [this.registry],
+    });
+
+    this.nodePoolLabelsGauge = new Gauge({
+      name: 'rackspace_spot_nodepool_labels',
+      help: 'Allow-listed custom labels of a node pool as label_<key> labels (always 1)',
+      labelNames: [
+        'namespace',
+        'organization_id',
+        'organization_name',
+        'cloudspace',
+        'nodepool',
+        'pool_type',
+        ...this.nodePoolLabels.map(({ labelName }) => labelName),
+      ],
+      registers: [this.registry],
+    });
+
+    this.nodePoolCostPerHourGauge = new Gauge({
+      name: 'rackspace_spot_nodepool_estimated_cost_per_hour',
+      help: 'Estimated cost per hour of a node pool (USD)',
+      labelNames: ['namespace', 'organization_id', 'organization_name', 'cloudspace', 'nodepool', 'serverclass', 'pool_type'],
+      registers: [this.registry],
+    });
+
+    this.nodePoolCostPerMonthGauge = new Gauge({
+      name: 'rackspace_spot_nodepool_estimated_cost_per_month',
+      help: 'Estimated cost per month of a node pool at the current hourly rate (USD)',
+      labelNames: ['namespace', 'organization_id', 'organization_name', 'cloudspace', 'nodepool', 'serverclass', 'pool_type'],
+      registers: [this.registry],
+    });
+
+    this.cloudspaceCostPerHourGauge = new Gauge({
+      name: 'rackspace_spot_cloudspace_estimated_cost_per_hour',
+      help: 'Estimated cost per hour of all node pools in a cloudspace (USD)',
+      labelNames: ['namespace', 'organization_id', 'organization_name', 'cloudspace'],
+      registers: [this.registry],
+    });
+
+    this.cloudspaceCostPerMonthGauge = new Gauge({
+      name: 'rackspace_spot_cloudspace_estimated_cost_per_month',
+      help: 'Estimated cost per month of all node pools in a cloudspace at the current hourly rate (USD)',
+      labelNames: ['namespace', 'organization_id', 'organization_name', 'cloudspace'],
+      registers: [this.registry],
+    });
+
+    this.organizationCostPerHourGauge = new Gauge({
+      name: 'rackspace_spot_organization_estimated_cost_per_hour',
+      help: 'Estimated cost per hour of all node pools in an organization (USD)',
+      labelNames: ['namespace', 'organization_id', 'organization_name'],
+      registers: [this.registry],
+    });
+
+    this.organizationCostPerMonthGauge = new Gauge({
+      name: 'rackspace_spot_organization_estimated_cost_per_month',
+      help: 'Estimated cost per month of all node pools in an organization at the current hourly rate (USD)',
+      labelNames: ['namespace', 'organization_id', 'organization_name'],
+      registers: [this.registry],
+    });
+
+    this.cloudspaceUnpricedNodePoolsGauge = new Gauge({
+      name: 'rackspace_spot_cloudspace_unpriced_nodepools',
+      help: 'Number of node pools left out of the estimated costs because their server class has no usable price',
+      labelNames: ['namespace', 'organization_id', 'organization_name', 'cloudspace'],
+      registers: [this.registry],
+    });
+
+    this.priceHistoryLatestHammerPriceGauge = new Gauge({
+      name: 'rackspace_spot_serverclass_history_latest_hammer_price',
+      help: 'Hammer price of the most recent auction in the price history of a server class (USD)',
+      labelNames: ['serverclass'],
+      registers: [this.registry],
+    });
+
+    this.priceHistoryLatestTimestampGauge = new Gauge({
+      name: 'rackspace_spot_serverclass_history_latest_auction_timestamp_seconds',
+      help: 'Unix timestamp of the most recent auction in the price history of a server class',
+      labelNames: ['serverclass'],
+      registers: [this.registry],
+    });
+
+    this.priceHistoryMinGauge = new Gauge({
+      name: 'rackspace_spot_serverclass_history_hammer_price_min',
+      help: 'Minimum hammer price of a server class over a rolling window (USD)',
+      labelNames: ['serverclass', 'window'],
+      registers: [this.registry],
+    });
+
+    this.priceHistoryMaxGauge = new Gauge({
+      name: 'rackspace_spot_serverclass_history_hammer_price_max',
+      help: 'Maximum hammer price of a server class over a rolling window (USD)',
+      labelNames: ['serverclass', 'window'],
+      registers: [this.registry],
+    });
+
+    this.priceHistoryAvgGauge = new Gauge({
+      name: 'rackspace_spot_serverclass_history_hammer_price_avg',
+      help: 'Average hammer price of a server class over a rolling window (USD)',
+      labelNames: ['serverclass', 'window'],
+      registers: [this.registry],
+    });
+
+    this.priceHistoryStaleGauge = new Gauge({
+      name: 'rackspace_spot_serverclass_history_stale',
+      help: 'Whether the last price history fetch for a server class failed (1) or not (0)',
+      labelNames: ['serverclass'],
+      registers: [this.registry],
+    });
+
+    this.sectionStaleGauge = new Gauge({
+      name: 'rackspace_spot_collection_section_stale',
+      help: 'Whether the last collection of a section failed and its previous values are still served (1) or not (0)',
+      labelNames: ['section'],
+      registers: [this.registry],
+    });
+
+    this.sectionLastSuccessGauge = new Gauge({
+      name: 'rackspace_spot_collection_section_last_success_timestamp_seconds',
+      help: 'Unix timestamp of the last successful collection of a section',
+      labelNames: ['section'],
+      registers: [this.registry],
+    });
+  }
+
+  /**
+   * Run one collection cycle. Each section succeeds or fails on its own: a
+   * failed section keeps serving its previous values, marked stale, and the
+   * result lists which sections failed.
+   */
+  async collect(): Promise<CollectionResult> {
+    // Every line logged during the cycle, including by the client, carries its cycle id
+    return runWithLogContext({ cycle_id: crypto.randomUUID() }, async () => {
+      const startedAt = performance.now();
+      const result = await this.collectSections();
+
+      const fields = {
+        duration_seconds: (performance.now() - startedAt) / 1000,
+        succeeded: result.succeeded.length,
+        failed: result.failed.map(({ section }) => section),
+      };
+      if (result.failed.length === 0) {
+        this.logger.info('Collection cycle completed', fields);
+      } else {
+        this.logger.warn('Collection cycle completed with stale sections', fields);
+      }
+
+      return result;
+    });
   }
 
-  async collect(): Promise<void> {
+  private async collectSections(): Promise<CollectionResult> {
+    const result: CollectionResult = { succeeded: [], failed: [] };
+
+    // Organizations, server classes and node pools are shared by several sections, so fetch them once per cycle
+    const organizations = this.resolveOrganizations();
+    const serverClasses = this.fetchServerClasses();
+    const spotNodePools = organizations.then((orgs) => this.fetchSpotNodePools(orgs));
+    const onDemandNodePools = organizations.then((orgs) => this.fetchOnDemandNodePools(orgs));
+
+    await Promise.all([
+      this.runSection(result, 'organizations', () => organizations),
+      this.runSection(result, 'cloudspaces', async () => this.collectCloudSpaceMetrics(await organizations)),
+      this.runSection(result, 'spot_nodepools', () => this.collectSpotNodePoolMetrics(spotNodePools)),
+      this.runSection(result, 'ondemand_nodepools', () => this.collectOnDemandNodePoolMetrics(onDemandNodePools)),
+      this.runSection(result, 'spot_bid_margins', () => this.collectSpotBidMarginMetrics(spotNodePools, serverClasses)),
+      this.runSection(result, 'nodepool_fulfilment', () =>
+        this.collectNodePoolFulfilmentMetrics(spotNodePools, onDemandNodePools)
+      ),
+      this.runSection(result, 'nodepool_metadata', () =>
+        this.collectNodePoolMetadataMetrics(spotNodePools, onDemandNodePools)
+      ),
+      this.runSection(result, 'regions', () => this.collectRegionMetrics()),
+      this.runSection(result, 'serverclasses', () => this.collectServerClassMetrics(serverClasses)),
+      this.runSection(result, 'price_percentiles', () => this.collectPricePercentileMetrics()),
+      this.runSection(result, 'comparable_prices', () => this.collectComparablePriceMetrics()),
+      this.runSection(result, 'price_history', () => this.collectPriceHistoryMetrics(spotNodePools, onDemandNodePools)),
+      this.runSection(result, 'costs', () =>
+        this.collectCostMetrics(organizations, spotNodePools, onDemandNodePools, serverClasses)
+      ),
+    ]);
+
+    return result;
+  }
+
+  /**
+   * Run a collection section, recording its outcome in `result` and the
+   * collection health metrics. Returns undefined when the section fails.
+   */
+  private async runSection<T>(
+    result: CollectionResult,
+    section: CollectorSection,
+    collect: () => Promise<T>
+  ): Promise<T | undefined> {
+    const status = this.sectionStatus.get(section) || {};
+    this.sectionStatus.set(section, status);
+
     try {
-      await Promise.all([
-        this.collectCloudSpaceMetrics(),
-        this.collectSpotNodePoolMetrics(),
-        this.collectOnDemandNodePoolMetrics(),
-      ]);
+      const value = await collect();
+      result.succeeded.push(section);
+      status.lastSuccessAt = Date.now();
+      this.sectionStaleGauge.set({ section }, 0);
+      this.sectionLastSuccessGauge.set({ section }, status.lastSuccessAt / 1000);
+      return value;
     } catch (error) {
-      console.error('Error collecting metrics:', error);
-      throw error;
+      this.logger.error('Section collection failed', { section, error });
+      result.failed.push({ section, error });
+      status.lastErrorAt = Date.now();
+      // Served unauthenticated on /ready, so it gets the same redaction as the log
+      status.lastError = this.logger.redact(error instanceof Error ? error.message : String(error));
+      this.sectionStaleGauge.set({ section }, 1);
+      return undefined;
     }
   }
 
-  private async collectCloudSpaceMetrics(): Promise<void> {
-    const cloudSpaces = await this.client.listCloudSpaces(this.organization);
+  /**
+   * Outcome history of every section; sections that have not run yet are empty.
+   */
+  getSectionStatus(): Record<CollectorSection, SectionStatus> {
+    return Object.fromEntries(
+      COLLECTOR_SECTIONS.map((section) => [section, { ...this.sectionStatus.get(section) }])
+    ) as Record<CollectorSection, SectionStatus>;
+  }
 
-    if (!cloudSpaces?.items) {
-      return;
+  private async resolveOrganizations(): Promise<Organization[]> {
+    const discoverAll = this.organizations.includes(ALL_ORGANIZATIONS);
+
+    try {
+      this.knownOrganizations = (await this.client.listOrganizations())?.organizations || [];
+    } catch (error) {
+      if (discoverAll) {
+        throw error;
+      }
+      // Explicitly configured organizations can still be collected, with the last known details if any
+      this.logger.warn('Unable to look up organization details', {
+        error,
+        reusing_previous_details: this.knownOrganizations !== undefined,
+      });
     }
 
-    for (const cloudSpace of cloudSpaces.items as CloudSpace[]) {
+    const known = this.knownOrganizations || [];
+
+    if (discoverAll) {
+      return known.flatMap((org) => {
+        const namespace = org.metadata?.namespace || org.name;
+        return namespace ? [toOrganization(org, namespace)] : [];
+      });
+    }
+
+    return this.organizations.map((configured) => {
+      const org = known.find(
+        (candidate) =>
+          candidate.metadata?.namespace === configured || candidate.name === configured || candidate.id === configured
+      );
+      return org
+        ? toOrganization(org, org.metadata?.namespace || configured)
+        : { id: configured, name: configured, namespace: configured };
+    });
+  }
+
+  private async collectCloudSpaceMetrics(organizations: Organization[]): Promise<void> {
+    const cloudSpaces = await this.fetchNamespaced(organizations, async (namespace) => {
+      const cloudSpaceList = await this.client.listCloudSpaces(namespace);
+      return (cloudSpaceList?.items || []) as CloudSpace[];
+    });
+
+    // Rebuild series from scratch so deleted cloudspaces and old condition labels disappear
+    resetGauges(
+      this.cloudspaceNodesGauge,
+      this.cloudspaceInfoGauge,
+      this.cloudspaceKubernetesVersionInfoGauge,
+      this.cloudspaceVersionDriftGauge,
+      this.cloudspaceCreatedGauge,
+      this.cloudspaceFirstReadyGauge,
+      this.cloudspaceTimeToFirstReadyGauge,
+      this.cloudspaceConditionGauge,
+      this.cloudspaceConditionLastTransitionGauge,
+      this.cloudspacePhaseGauge,
+      this.cloudspaceHealthGauge,
+      this.cloudspaceUpgradePhaseGauge,
+      this.cloudspacePhaseReasonGauge,
+      this.cloudspaceServerInfoGauge,
+      this.cloudspaceServersGauge,
+      this.cloudspaceServersWithErrorGauge,
+      this.pendingAllocationRequestedGauge,
+      this.pendingAllocationAllocatedGauge,
+      this.pendingAllocationOutstandingGauge,
+      this.oldestPendingAllocationAgeGauge
+    );
+
+    const now = Date.now() / 1000;
+    const outstandingAllocations = new Set<string>();
+
+    for (const { organization, resource: cloudSpace } of cloudSpaces) {
       const name = cloudSpace.metadata?.name || 'unknown';
       const region = cloudSpace.spec?.region || 'unknown';
       const assignedServers = cloudSpace.status?.assignedServers || {};
@@ -92,23 +922,250 @@ export class RackspaceSpotCollector {
 
       this.cloudspaceNodesGauge.set(
         {
-          namespace: this.organization,
+          ...organizationLabels(organization),
           cloudspace: name,
           cloudspace_region: region,
         },
         nodeCount
       );
+
+      const cloudSpaceLabels = { ...organizationLabels(organization), cloudspace: name };
+      this.setCloudSpaceInfoMetrics(cloudSpaceLabels, region, cloudSpace);
+      this.setCloudSpaceLifecycleMetrics(cloudSpaceLabels, cloudSpace);
+      this.setCloudSpaceConditionMetrics(cloudSpaceLabels, cloudSpace);
+      this.setCloudSpaceStateMetrics(cloudSpaceLabels, cloudSpace);
+      this.setCloudSpaceServerMetrics(cloudSpaceLabels, assignedServers);
+      this.setCloudSpacePendingAllocationMetrics(
+        cloudSpaceLabels,
+        `${organization.namespace}/${name}`,
+        cloudSpace,
+        now,
+        outstandingAllocations
+      );
+    }
+
+    // Forget allocations that have been filled or removed
+    for (const key of this.pendingAllocationFirstSeen.keys()) {
+      if (!outstandingAllocations.has(key)) {
+        this.pendingAllocationFirstSeen.delete(key);
+      }
+    }
+  }
+
+  private setCloudSpacePendingAllocationMetrics(
+    labels: Record<string, string>,
+    cloudSpaceKey: string,
+    cloudSpace: CloudSpace,
+    now: number,
+    outstandingAllocations: Set<string>
+  ): void {
+    let oldestFirstSeen = now;
+
+    for (const [key, allocation] of Object.entries(cloudSpace.status?.pendingAllocations || {})) {
+      const allocationLabels = {
+        ...labels,
+        allocation: key,
+        bid_name: allocation.bidName || 'unknown',
+        bid_type: allocation.bidType || 'unknown',
+        serverclass: allocation.serverClassName || 'unknown',
+      };
+      const requested = allocation.count || 0;
+      const allocated = allocation.allocatedCount || 0;
+      const outstanding = Math.max(requested - allocated, 0);
+
+      this.pendingAllocationRequestedGauge.set(allocationLabels, requested);
+      this.pendingAllocationAllocatedGauge.set(allocationLabels, allocated);
+      this.pendingAllocationOutstandingGauge.set(allocationLabels, outstanding);
+
+      if (outstanding === 0) {
+        continue;
+      }
+
+      // The API has no creation time for allocations, so age is tracked from when we first saw it
+      const allocationKey = `${cloudSpaceKey}/${key}`;
+      const firstSeen = this.pendingAllocationFirstSeen.get(allocationKey) ?? now;
+      this.pendingAllocationFirstSeen.set(allocationKey, firstSeen);
+      outstandingAllocations.add(allocationKey);
+      oldestFirstSeen = Math.min(oldestFirstSeen, firstSeen);
+    }
+
+    this.oldestPendingAllocationAgeGauge.set(labels, now - oldestFirstSeen);
+  }
+
+  private setCloudSpaceServerMetrics(
+    labels: Record<string, string>,
+    assignedServers: NonNullable<NonNullable<CloudSpace['status']>['assignedServers']>
+  ): void {
+    const serverCounts = new Map<string, { labels: Record<string, string>; count: number }>();
+    let serversWithError = 0;
+
+    for (const [key, server] of Object.entries(assignedServers)) {
+      const groupLabels = {
+        state: server.state || 'unknown',
+        cluster_role: server.clusterRole || 'unknown',
+        serverclass: server.serverClassName || 'unknown',
+      };
+      const hasError = !!server.error;
+
+      this.cloudspaceServerInfoGauge.set(
+        {
+          ...labels,
+          server: server.serverName || key,
+          ...groupLabels,
+          server_type: server.serverType || 'unknown',
+          has_error: hasError ? 'true' : 'false',
+        },
+        1
+      );
+
+      const groupKey = `${groupLabels.state}/${groupLabels.cluster_role}/${groupLabels.serverclass}`;
+      const group = serverCounts.get(groupKey) || { labels: groupLabels, count: 0 };
+      group.count++;
+      serverCounts.set(groupKey, group);
+
+      if (hasError) {
+        serversWithError++;
+      }
     }
+
+    for (const group of serverCounts.values()) {
+      this.cloudspaceServersGauge.set({ ...labels, ...group.labels }, group.count);
+    }
+    this.cloudspaceServersWithErrorGauge.set(labels, serversWithError);
   }
 
-  private async collectSpotNodePoolMetrics(): Promise<void> {
-    const spotNodePools = await this.client.listSpotNodePools(this.organization);
+  private setCloudSpaceInfoMetrics(labels: Record<string, string>, region: string, cloudSpace: CloudSpace): void {
+    const spec = cloudSpace.spec;
 
-    if (!spotNodePools?.items) {
-      return;
+    this.cloudspaceInfoGauge.set(
+      {
+        ...labels,
+        cloudspace_region: region,
+        cni: spec?.cni || 'unknown',
+        ha_control_plane: spec?.HAControlPlane === undefined ? 'unknown' : String(spec.HAControlPlane),
+        deployment_type: spec?.deploymentType || 'unknown',
+      },
+      1
+    );
+
+    const desiredVersion = spec?.kubernetesVersion;
+    const currentVersion = cloudSpace.status?.currentKubernetesVersion;
+    this.cloudspaceKubernetesVersionInfoGauge.set(
+      {
+        ...labels,
+        desired_version: desiredVersion || 'unknown',
+        current_version: currentVersion || 'unknown',
+      },
+      1
+    );
+
+    // Only report drift once both versions are known; "v1.30.1" and "1.30.1" are the same version
+    const drift =
+      !!desiredVersion && !!currentVersion && desiredVersion.replace(/^v/, '') !== currentVersion.replace(/^v/, '');
+    this.cloudspaceVersionDriftGauge.set(labels, drift ? 1 : 0);
+  }
+
+  private setCloudSpaceLifecycleMetrics(labels: Record<string, string>, cloudSpace: CloudSpace): void {
+    const created = parseTimestamp(cloudSpace.metadata?.creationTimestamp);
+    const firstReady = parseTimestamp(cloudSpace.status?.firstReadyTimestamp);
+
+    if (created !== undefined) {
+      this.cloudspaceCreatedGauge.set(labels, created);
     }
 
-    for (const pool of spotNodePools.items as SpotNodePool[]) {
+    // Cloudspaces that never became ready have a created timestamp but no first ready timestamp
+    if (firstReady !== undefined) {
+      this.cloudspaceFirstReadyGauge.set(labels, firstReady);
+
+      if (created !== undefined) {
+        this.cloudspaceTimeToFirstReadyGauge.set(labels, firstReady - created);
+      }
+    }
+  }
+
+  private setCloudSpaceStateMetrics(labels: Record<string, string>, cloudSpace: CloudSpace): void {
+    const status = cloudSpace.status;
+
+    setStateSet(this.cloudspacePhaseGauge, labels, 'phase', CLOUDSPACE_PHASES, status?.phase);
+    setStateSet(this.cloudspaceHealthGauge, labels, 'health', CLOUDSPACE_HEALTH_STATES, status?.health);
+    setStateSet(this.cloudspaceUpgradePhaseGauge, labels, 'upgrade_phase', CLOUDSPACE_UPGRADE_PHASES, status?.upgradePhase);
+
+    if (status?.reason) {
+      this.cloudspacePhaseReasonGauge.set({ ...labels, phase: status.phase || 'unknown', reason: status.reason }, 1);
+    }
+  }
+
+  private setCloudSpaceConditionMetrics(labels: Record<string, string>, cloudSpace: CloudSpace): void {
+    for (const condition of cloudSpace.status?.conditions || []) {
+      const type = condition.type || 'unknown';
+      const reason = condition.reason || '';
+      const severity = condition.severity || '';
+      const currentStatus = CONDITION_STATUSES.includes(condition.status) ? condition.status : 'Unknown';
+
+      for (const status of CONDITION_STATUSES) {
+        this.cloudspaceConditionGauge.set(
+          { ...labels, type, status, reason, severity },
+          status === currentStatus ? 1 : 0
+        );
+      }
+
+      const lastTransition = parseTimestamp(condition.lastTransitionTime);
+      if (lastTransition !== undefined) {
+        this.cloudspaceConditionLastTransitionGauge.set({ ...labels, type }, lastTransition);
+      }
+    }
+  }
+
+  private async fetchServerClasses(): Promise<ServerClass[]> {
+    const serverClasses = await this.client.listServerClasses();
+    return (serverClasses?.items || []) as ServerClass[];
+  }
+
+  private async fetchSpotNodePools(organizations: Organization[]): Promise<OrganizationResource<SpotNodePool>[]> {
+    return this.fetchNamespaced(organizations, async (namespace) => {
+      const spotNodePools = await this.client.listSpotNodePools(namespace);
+      return (spotNodePools?.items || []) as SpotNodePool[];
+    });
+  }
+
+  private async fetchOnDemandNodePools(
+    organizations: Organization[]
+  ): Promise<OrganizationResource<OnDemandNodePool>[]> {
+    return this.fetchNamespaced(organizations, async (namespace) => {
+      const onDemandNodePools = await this.client.listOnDemandNodePools(namespace);
+      return (onDemandNodePools?.items || []) as OnDemandNodePool[];
+    });
+  }
+
+  // List a namespaced resource for every organization concurrently
+  private async fetchNamespaced<T>(
+    organizations: Organization[],
+    list: (namespace: string) => Promise<T[]>
+  ): Promise<OrganizationResource<T>[]> {
+    const results = await Promise.all(
+      organizations.map(async (organization) => {
+        const resources = await list(organization.namespace);
+        return resources.map((resource) => ({ organization, resource }));
+      })
+    );
+    return results.flat();
+  }
+
+  private async collectSpotNodePoolMetrics(spotNodePools: Promise<OrganizationResource<SpotNodePool>[]>): Promise<void> {
+    const poolList = await spotNodePools;
+
+    // Rebuild series from scratch so deleted pools and superseded bid statuses disappear
+    resetGauges(
+      this.spotNodePoolDesiredGauge,
+      this.spotNodePoolWonCountGauge,
+      this.spotNodePoolBidPriceGauge,
+      this.spotNodePoolAutoscalingEnabledGauge,
+      this.spotNodePoolAutoscalingMinNodesGauge,
+      this.spotNodePoolAutoscalingMaxNodesGauge,
+      this.spotNodePoolAutoscalingHeadroomRatioGauge
+    );
+
+    for (const { organization, resource: pool } of poolList) {
       const name = pool.metadata?.name || 'unknown';
       const cloudSpace = pool.spec?.cloudSpace || 'unknown';
       const serverClass = pool.spec?.serverClass || 'unknown';
@@ -119,7 +1176,7 @@ export class RackspaceSpotCollector {
       // Set desired count
       this.spotNodePoolDesiredGauge.set(
         {
-          namespace: this.organization,
+          ...organizationLabels(organization),
           cloudspace: cloudSpace,
           nodepool: name,
           serverclass: serverClass,
@@ -130,7 +1187,7 @@ export class RackspaceSpotCollector {
       // Set won count
       this.spotNodePoolWonCountGauge.set(
         {
-          namespace: this.organization,
+          ...organizationLabels(organization),
           cloudspace: cloudSpace,
           nodepool: name,
           serverclass: serverClass,
@@ -138,17 +1195,97 @@ export class RackspaceSpotCollector {
         },
         wonCount
       );
+
+      const poolLabels = {
+        ...organizationLabels(organization),
+        cloudspace: cloudSpace,
+        nodepool: name,
+        serverclass: serverClass,
+      };
+      this.setSpotNodePoolAutoscalingMetrics(poolLabels, pool, wonCount);
+
+      const bidPrice = parsePrice(pool.spec?.bidPrice);
+      if (bidPrice !== undefined) {
+        this.spotNodePoolBidPriceGauge.set(poolLabels, bidPrice);
+      }
     }
   }
 
-  private async collectOnDemandNodePoolMetrics(): Promise<void> {
-    const onDemandNodePools = await this.client.listOnDemandNodePools(this.organization);
+  /**
+   * Compare each spot bid against the market price of the pool's server
+   * class. Kept apart from the pool counts so a server class failure leaves
+   * those current.
+   */
+  private async collectSpotBidMarginMetrics(
+    spotNodePools: Promise<OrganizationResource<SpotNodePool>[]>,
+    serverClasses: Promise<ServerClass[]>
+  ): Promise<void> {
+    const [poolList, serverClassList] = await Promise.all([spotNodePools, serverClasses]);
+    const serverClassesByName = indexServerClasses(serverClassList);
 
-    if (!onDemandNodePools?.items) {
+    resetGauges(this.spotNodePoolBidMarginGauge, this.spotNodePoolBidMarginRatioGauge);
+
+    for (const { organization, resource: pool } of poolList) {
+      const serverClass = pool.spec?.serverClass || 'unknown';
+      const bidPrice = parsePrice(pool.spec?.bidPrice);
+      const marketPrice = parsePrice(serverClassesByName.get(serverClass)?.status?.spotPricing?.marketPricePerHour);
+      if (bidPrice === undefined || marketPrice === undefined) {
+        continue;
+      }
+
+      const poolLabels = {
+        ...organizationLabels(organization),
+        cloudspace: pool.spec?.cloudSpace || 'unknown',
+        nodepool: pool.metadata?.name || 'unknown',
+        serverclass: serverClass,
+      };
+      const margin = bidPrice - marketPrice;
+      this.spotNodePoolBidMarginGauge.set(poolLabels, margin);
+      if (marketPrice > 0) {
+        this.spotNodePoolBidMarginRatioGauge.set(poolLabels, margin / marketPrice);
+      }
+    }
+  }
+
+  private setSpotNodePoolAutoscalingMetrics(
+    labels: Record<string, string>,
+    pool: SpotNodePool,
+    wonCount: number
+  ): void {
+    const autoscaling = pool.spec?.autoscaling;
+    const enabled = autoscaling?.enabled === true;
+
+    this.spotNodePoolAutoscalingEnabledGauge.set(labels, enabled ? 1 : 0);
+    if (!enabled) {
       return;
     }
 
-    for (const pool of onDemandNodePools.items as OnDemandNodePool[]) {
+    if (autoscaling.minNodes !== undefined) {
+      this.spotNodePoolAutoscalingMinNodesGauge.set(labels, autoscaling.minNodes);
+    }
+
+    if (autoscaling.maxNodes !== undefined) {
+      this.spotNodePoolAutoscalingMaxNodesGauge.set(labels, autoscaling.maxNodes);
+
+      if (autoscaling.maxNodes > 0) {
+        // wonCount can exceed maxNodes right after the maximum is lowered
+        this.spotNodePoolAutoscalingHeadroomRatioGauge.set(
+          labels,
+          Math.max((autoscaling.maxNodes - wonCount) / autoscaling.maxNodes, 0)
+        );
+      }
+    }
+  }
+
+  private async collectOnDemandNodePoolMetrics(
+    onDemandNodePools: Promise<OrganizationResource<OnDemandNodePool>[]>
+  ): Promise<void> {
+    const poolList = await onDemandNodePools;
+
+    // Rebuild series from scratch so deleted pools and superseded reserved statuses disappear
+    resetGauges(this.onDemandNodePoolDesiredGauge, this.onDemandNodePoolReservedCountGauge);
+
+    for (const { organization, resource: pool } of poolList) {
       const name = pool.metadata?.name || 'unknown';
       const cloudSpace = pool.spec?.cloudSpace || 'unknown';
       const serverClass = pool.spec?.serverClass || 'unknown';
@@ -159,7 +1296,7 @@ export class RackspaceSpotCollector {
       // Set desired count
       this.onDemandNodePoolDesiredGauge.set(
         {
-          namespace: this.organization,
+          ...organizationLabels(organization),
           cloudspace: cloudSpace,
           nodepool: name,
           serverclass: serverClass,
@@ -170,7 +1307,7 @@ export class RackspaceSpotCollector {
       // Set reserved count
       this.onDemandNodePoolReservedCountGauge.set(
         {
-          namespace: this.organization,
+          ...organizationLabels(organization),
           cloudspace: cloudSpace,
           nodepool: name,
           serverclass: serverClass,
@@ -181,7 +1318,529 @@ export class RackspaceSpotCollector {
     }
   }
 
+  /**
+   * Estimated node pool costs rolled up per cloudspace and organization.
+   * Roll-ups from a subset of pools would under-report, so this needs both
+   * pool lists as well as server class prices.
+   */
+  private async collectCostMetrics(
+    organizations: Promise<Organization[]>,
+    spotNodePools: Promise<OrganizationResource<SpotNodePool>[]>,
+    onDemandNodePools: Promise<OrganizationResource<OnDemandNodePool>[]>,
+    serverClasses: Promise<ServerClass[]>
+  ): Promise<void> {
+    const [orgs, spotPoolList, onDemandPoolList, serverClassList] = await Promise.all([
+      organizations,
+      spotNodePools,
+      onDemandNodePools,
+      serverClasses,
+    ]);
+    const costs = nodePoolCosts(spotPoolList, onDemandPoolList, indexServerClasses(serverClassList));
+    const cloudspaceCosts = new Map<
+      string,
+      { organization: Organization; cloudspace: string; costPerHour: number; unpriced: number }
+    >();
+    const organizationCosts = new Map<string, number>();
+
+    resetGauges(
+      this.nodePoolCostPerHourGauge,
+      this.nodePoolCostPerMonthGauge,
+      this.cloudspaceCostPerHourGauge,
+      this.cloudspaceCostPerMonthGauge,
+      this.organizationCostPerHourGauge,
+      this.organizationCostPerMonthGauge,
+      this.cloudspaceUnpricedNodePoolsGauge
+    );
+
+    for (const { organization, cloudspace, nodepool, serverclass, poolType, costPerHour } of costs) {
+      const key = `${organization.namespace}/${cloudspace}`;
+      const cloudspaceCost = cloudspaceCosts.get(key) || { organization, cloudspace, costPerHour: 0, unpriced: 0 };
+      cloudspaceCosts.set(key, cloudspaceCost);
+
+      // Counted instead, so totals that leave out unpriced pools are visibly incomplete
+      if (costPerHour === undefined) {
+        cloudspaceCost.unpriced++;
+        continue;
+      }
+
+      const labels = { ...organizationLabels(organization), cloudspace, nodepool, serverclass, pool_type: poolType };
+      this.nodePoolCostPerHourGauge.set(labels, costPerHour);
+      this.nodePoolCostPerMonthGauge.set(labels, costPerHour * HOURS_PER_MONTH);
+
+      cloudspaceCost.costPerHour += costPerHour;
+
+      organizationCosts.set(organization.namespace, (organizationCosts.get(organization.namespace) || 0) + costPerHour);
+    }
+
+    for (const { organization, cloudspace, costPerHour, unpriced } of cloudspaceCosts.values()) {
+      const labels = { ...organizationLabels(organization), cloudspace };
+      this.cloudspaceCostPerHourGauge.set(labels, costPerHour);
+      this.cloudspaceCostPerMonthGauge.set(labels, costPerHour * HOURS_PER_MONTH);
+      this.cloudspaceUnpricedNodePoolsGauge.set(labels, unpriced);
+    }
+
+    for (const organization of orgs) {
+      const costPerHour = organizationCosts.get(organization.namespace) || 0;
+      this.organizationCostPerHourGauge.set(organizationLabels(organization), costPerHour);
+      this.organizationCostPerMonthGauge.set(organizationLabels(organization), costPerHour * HOURS_PER_MONTH);
+    }
+  }
+
+  private async collectRegionMetrics(): Promise<void> {
+    const regionList = await this.client.listRegions();
+    const regions = (regionList?.items || []) as Region[];
+
+    resetGauges(this.regionInfoGauge);
+
+    for (const region of regions) {
+      const spec = region.spec;
+      this.regionInfoGauge.set(
+        {
+          region: region.metadata?.name || 'unknown',
+          country: spec?.country || 'unknown',
+          description: spec?.description || '',
+          provider_type: spec?.provider?.providerType || 'unknown',
+          provider_region_name: spec?.provider?.providerRegionName || 'unknown',
+        },
+        1
+      );
+    }
+  }
+
+  private async collectServerClassMetrics(serverClasses: Promise<ServerClass[]>): Promise<void> {
+    const serverClassList = await serverClasses;
+
+    // Rebuild series from scratch so removed server classes disappear
+    resetGauges(
+      this.serverClassMarketPriceGauge,
+      this.serverClassHammerPriceGauge,
+      this.serverClassAvailableGauge,
+      this.serverClassCapacityGauge,
+      this.serverClassReservedGauge,
+      this.serverClassLastAuctionGauge,
+      this.serverClassAvailabilityInfoGauge,
+      this.serverClassDeprecatedGauge
+    );
+
+    for (const serverClass of serverClassList) {
+      const labels = {
+        serverclass: serverClass.metadata?.name || 'unknown',
+        region: serverClass.spec?.region || 'unknown',
+        category: serverClass.spec?.category || 'unknown',
+        flavor_type: serverClass.spec?.flavorType || 'unknown',
+      };
+      const spotPricing = serverClass.status?.spotPricing;
+
+      // Prices are strings in the API; skip values that don't parse
+      const marketPrice = parsePrice(spotPricing?.marketPricePerHour);
+      if (marketPrice !== undefined) {
+        this.serverClassMarketPriceGauge.set(labels, marketPrice);
+      }
+
+      const hammerPrice = parsePrice(spotPricing?.hammerPricePerHour);
+      if (hammerPrice !== undefined) {
+        this.serverClassHammerPriceGauge.set(labels, hammerPrice);
+      }
+
+      // Capacity counts are only exported when the API reports them
+      const status = serverClass.status;
+      if (status?.available !== undefined) {
+        this.serverClassAvailableGauge.set(labels, status.available);
+      }
+      if (status?.capacity !== undefined) {
+        this.serverClassCapacityGauge.set(labels, status.capacity);
+      }
+      if (status?.reserved !== undefined) {
+        this.serverClassReservedGauge.set(labels, status.reserved);
+      }
+      if (status?.lastAuction !== undefined) {
+        this.serverClassLastAuctionGauge.set(labels, status.lastAuction);
+      }
+
+      const availability = serverClass.spec?.availability || 'unknown';
+      this.serverClassAvailabilityInfoGauge.set({ ...labels, availability }, 1);
+      this.serverClassDeprecatedGauge.set(labels, availability.toLowerCase() === 'deprecated' ? 1 : 0);
+    }
+  }
+
+  private async collectPricePercentileMetrics(): Promise<void> {
+    const percentiles = await this.client.getPercentiles();
+
+    resetGauges(this.serverClassPricePercentileGauge);
+
+    for (const [region, regionData] of Object.entries(percentiles?.regions || {})) {
+      for (const [serverClass, serverClassData] of Object.entries(regionData.serverclasses || {})) {
+        for (const percentile of PRICE_PERCENTILES) {
+          const value = serverClassData[`${percentile}_percentile`];
+          if (typeof value !== 'number') {
+            continue;
+          }
+
+          this.serverClassPricePercentileGauge.set(
+            {
+              percentile,
+              region,
+              serverclass: serverClass,
+              category: serverClassData.category || 'unknown',
+            },
+            value
+          );
+        }
+      }
+    }
+  }
+
+  private async collectComparablePriceMetrics(): Promise<void> {
+    const comparablePrices = await this.client.getComparablePrices();
+
+    resetGauges(this.serverClassHyperscalerAveragePriceGauge, this.serverClassComparablePriceGauge);
+
+    for (const [region, serverClasses] of Object.entries(comparablePrices?.regions || {})) {
+      for (const [serverClass, prices] of Object.entries(serverClasses)) {
+        const averagePrice = parsePrice(prices.hyperscaler_average_price);
+        if (averagePrice !== undefined) {
+          this.serverClassHyperscalerAveragePriceGauge.set({ region, serverclass: serverClass }, averagePrice);
+        }
+
+        for (const comparable of prices.comparables || []) {
+          const price = parsePrice(comparable.price);
+          if (price === undefined) {
+            continue;
+          }
+
+          this.serverClassComparablePriceGauge.set(
+            {
+              region,
+              serverclass: serverClass,
+              cloud: comparable.cloud || 'unknown',
+              comparable_class: comparable.class || 'unknown',
+            },
+            price
+          );
+        }
+      }
+    }
+  }
+
+  private async collectNodePoolFulfilmentMetrics(
+    spotNodePools: Promise<OrganizationResource<SpotNodePool>[]>,
+    onDemandNodePools: Promise<OrganizationResource<OnDemandNodePool>[]>
+  ): Promise<void> {
+    const pools = await typedNodePools(spotNodePools, onDemandNodePools);
+
+    resetGauges(this.nodePoolFulfilmentRatioGauge, this.nodePoolShortfallGauge);
+
+    for (const { organization, resource: pool, poolType } of pools) {
+      const labels = {
+        ...organizationLabels(organization),
+        cloudspace: pool.spec?.cloudSpace || 'unknown',
+        nodepool: pool.metadata?.name || 'unknown',
+        serverclass: pool.spec?.serverClass || 'unknown',
+        pool_type: poolType,
+      };
+      const desired = pool.spec?.desired || 0;
+      // Spot pools are fulfilled by winning bids, on-demand pools by reserving servers
+      const fulfilled = (poolType === 'spot' ? pool.status?.wonCount : pool.status?.reservedCount) || 0;
+
+      this.nodePoolFulfilmentRatioGauge.set(labels, desired > 0 ? fulfilled / desired : 1);
+      this.nodePoolShortfallGauge.set(labels, Math.max(desired - fulfilled, 0));
+    }
+  }
+
+  private async collectNodePoolMetadataMetrics(
+    spotNodePools: Promise<OrganizationResource<SpotNodePool>[]>,
+    onDemandNodePools: Promise<OrganizationResource<OnDemandNodePool>[]>
+  ): Promise<void> {
+    const pools = await typedNodePools(spotNodePools, onDemandNodePools);
+
+    resetGauges(
+      this.nodePoolCustomMetadataRequestedGauge,
+      this.nodePoolCustomMetadataAppliedGauge,
+      this.nodePoolLabelsGauge
+    );
+
+    for (const { organization, resource: pool, poolType } of pools) {
+      const labels = {
+        ...organizationLabels(organization),
+        cloudspace: pool.spec?.cloudSpace || 'unknown',
+        nodepool: pool.metadata?.name || 'unknown',
+        pool_type: poolType,
+      };
+      const customLabels: Record<string, unknown> = pool.spec?.customLabels || {};
+      const applied = pool.status?.customMetadataStatus;
+
+      // Only count applied keys that were requested, so stale keys left on nodes don't mask missing ones
+      const requestedKeys = {
+        label: Object.keys(customLabels),
+        annotation: Object.keys(pool.spec?.customAnnotations || {}),
+        taint: (pool.spec?.customTaints || []).map((taint) => taint.key),
+      };
+      const appliedKeys = {
+        label: applied?.labels || [],
+        annotation: applied?.annotations || [],
+        taint: applied?.taints || [],
+      };
+
+      for (const metadataType of CUSTOM_METADATA_TYPES) {
+        const requested = new Set(requestedKeys[metadataType]);
+        const appliedCount = new Set(appliedKeys[metadataType].filter((key) => requested.has(key))).size;
+        this.nodePoolCustomMetadataRequestedGauge.set({ ...labels, metadata_type: metadataType }, requested.size);
+        this.nodePoolCustomMetadataAppliedGauge.set({ ...labels, metadata_type: metadataType }, appliedCount);
+      }
+
+      if (this.nodePoolLabels.length > 0) {
+        const poolLabels: Record<string, string> = { ...labels };
+        for (const { key, labelName } of this.nodePoolLabels) {
+          poolLabels[labelName] = customLabels[key] === undefined ? '' : String(customLabels[key]);
+        }
+        this.nodePoolLabelsGauge.set(poolLabels, 1);
+      }
+    }
+  }
+
+  private async collectPriceHistoryMetrics(
+    spotNodePools: Promise<OrganizationResource<SpotNodePool>[]>,
+    onDemandNodePools: Promise<OrganizationResource<OnDemandNodePool>[]>
+  ): Promise<void> {
+    let serverClasses = this.priceHistoryServerClasses;
+
+    // Without a configured list, follow the server classes our node pools use
+    if (serverClasses.length === 0) {
+      const pools = (await Promise.all([spotNodePools, onDemandNodePools])).flat();
+      serverClasses = [
+        ...new Set(
+          pools.map(({ resource }) => resource.spec?.serverClass).filter((name): name is string => !!name)
+        ),
+      ];
+    }
+
+    // One unknown or slow server class must not hold back the others
+    const results = await Promise.allSettled(
+      serverClasses.map((serverClass) => this.client.getPriceHistory(serverClass))
+    );
+    const histories: { serverClass: string; history: PriceHistory }[] = [];
+    const failed: { serverClass: string; error: unknown }[] = [];
+    results.forEach((result, index) => {
+      const serverClass = serverClasses[index]!;
+      if (result.status === 'fulfilled') {
+        histories.push({ serverClass, history: result.value });
+      } else {
+        failed.push({ serverClass, error: result.reason });
+      }
+    });
+
+    // A failed server class keeps its previous values, marked stale
+    for (const { serverClass, error } of failed) {
+      this.logger.warn('Unable to fetch price history', { serverclass: serverClass, error });
+      this.priceHistoryStaleGauge.set({ serverclass: serverClass }, 1);
+    }
+    if (histories.length === 0 && failed.length > 0) {
+      const names = failed.map(({ serverClass }) => serverClass).join(', ');
+      throw new Error(`Failed to fetch price history for every server class: ${names}`);
+    }
+
+    // Server classes no longer requested disappear
+    const requested = new Set(serverClasses);
+    for (const serverClass of this.priceHistoryClasses) {
+      if (!requested.has(serverClass)) {
+        this.removePriceHistoryMetrics(serverClass);
+        this.priceHistoryStaleGauge.remove({ serverclass: serverClass });
+      }
+    }
+    this.priceHistoryClasses = requested;
+
+    const now = Date.now() / 1000;
+    for (const { serverClass, history } of histories) {
+      // Rebuild the class's series so windows without recent auctions disappear
+      this.removePriceHistoryMetrics(serverClass);
+      this.setPriceHistoryMetrics(serverClass, history, now);
+      this.priceHistoryStaleGauge.set({ serverclass: serverClass }, 0);
+    }
+  }
+
+  private removePriceHistoryMetrics(serverClass: string): void {
+    this.priceHistoryLatestHammerPriceGauge.remove({ serverclass: serverClass });
+    this.priceHistoryLatestTimestampGauge.remove({ serverclass: serverClass });
+    for (const window of this.priceHistoryWindows) {
+      const labels = { serverclass: serverClass, window: window.label };
+      this.priceHistoryMinGauge.remove(labels);
+      this.priceHistoryMaxGauge.remove(labels);
+      this.priceHistoryAvgGauge.remove(labels);
+    }
+  }
+
+  private setPriceHistoryMetrics(serverClass: string, history: PriceHistory | undefined, now: number): void {
+    const auctions = (history?.history || [])
+      .filter(
+        (auction): auction is { run_at: number; hammer_price: number } =>
+          typeof auction.run_at === 'number' && typeof auction.hammer_price === 'number'
+      )
+      .sort((a, b) => a.run_at - b.run_at);
+
+    const latest = auctions[auctions.length - 1];
+    if (!latest) {
+      return;
+    }
+
+    this.priceHistoryLatestHammerPriceGauge.set({ serverclass: serverClass }, latest.hammer_price);
+    this.priceHistoryLatestTimestampGauge.set({ serverclass: serverClass }, latest.run_at);
+
+    for (const window of this.priceHistoryWindows) {
+      const prices = auctions
+        .filter((auction) => auction.run_at >= now - window.seconds)
+        .map((auction) => auction.hammer_price);
+      if (prices.length === 0) {
+        continue;
+      }
+
+      const labels = { serverclass: serverClass, window: window.label };
+      this.priceHistoryMinGauge.set(labels, Math.min(...prices));
+      this.priceHistoryMaxGauge.set(labels, Math.max(...prices));
+      this.priceHistoryAvgGauge.set(labels, prices.reduce((sum, price) => sum + price, 0) / prices.length);
+    }
+  }
+
   getRegistry(): Registry {
     return this.registry;
   }
 }
+
+/**
+ * Clear every series of the given gauges. Collectors call this after their
+ * API data has arrived and before setting new values, with no await in
+ * between, so a scrape never observes a partially rebuilt label set.
+ */
+function resetGauges(...gauges: Gauge[]): void {
+  for (const gauge of gauges) {
+    gauge.reset();
+  }
+}
+
+/**
+ * Export a state set: one series per known value, 1 for the current value and
+ * 0 for the rest. A current value outside the known list gets its own series.
+ */
+function setStateSet(
+  gauge: Gauge,
+  labels: Record<string, string>,
+  labelName: string,
+  knownValues: string[],
+  current: string | undefined
+): void {
+  const values = current && !knownValues.includes(current) ? [...knownValues, current] : knownValues;
+  for (const value of values) {
+    gauge.set({ ...labels, [labelName]: value }, value === current ? 1 : 0);
+  }
+}
+
+function toOrganization(org: NonNullable<OrganizationList['organizations']>[number], namespace: string): Organization {
+  return {
+    id: org.id || org.name || namespace,
+    name: org.display_name || org.name || namespace,
+    namespace,
+  };
+}
+
+function organizationLabels(organization: Organization): Record<string, string> {
+  return {
+    namespace: organization.namespace,
+    organization_id: organization.id,
+    organization_name: organization.name,
+  };
+}
+
+/**
+ * Combine spot and on-demand node pools into one list tagged with their pool type.
+ * Gauges fed by both pool kinds are rebuilt together from this list in one pass.
+ */
+async function typedNodePools(
+  spotNodePools: Promise<OrganizationResource<SpotNodePool>[]>,
+  onDemandNodePools: Promise<OrganizationResource<OnDemandNodePool>[]>
+): Promise<TypedNodePool[]> {
+  const [spotPools, onDemandPools] = await Promise.all([spotNodePools, onDemandNodePools]);
+  return [
+    ...spotPools.map((pool): TypedNodePool => ({ ...pool, poolType: 'spot' })),
+    ...onDemandPools.map((pool): TypedNodePool => ({ ...pool, poolType: 'ondemand' })),
+  ];
+}
+
+/**
+ * Prometheus label name for a custom node pool label key, following
+ * kube-state-metrics: "team.example.com/owner" becomes "label_team_example_com_owner".
+ */
+function nodePoolLabelName(key: string): string {
+  return `label_${key.replace(/[^a-zA-Z0-9_]/g, '_')}`;
+}
+
+/**
+ * Hourly cost of every node pool. Won spot nodes are billed at the hammer
+ * price of the last auction, reserved on-demand nodes at the on-demand cost.
+ */
+function nodePoolCosts(
+  spotNodePools: OrganizationResource<SpotNodePool>[],
+  onDemandNodePools: OrganizationResource<OnDemandNodePool>[],
+  serverClassesByName: Map<string, ServerClass>
+): NodePoolCost[] {
+  const costs: NodePoolCost[] = [];
+
+  for (const { organization, resource: pool } of spotNodePools) {
+    const serverClass = pool.spec?.serverClass || 'unknown';
+    const hammerPrice = parsePrice(serverClassesByName.get(serverClass)?.status?.spotPricing?.hammerPricePerHour);
+    costs.push({
+      organization,
+      cloudspace: pool.spec?.cloudSpace || 'unknown',
+      nodepool: pool.metadata?.name || 'unknown',
+      serverclass: serverClass,
+      poolType: 'spot',
+      costPerHour: hammerPrice === undefined ? undefined : (pool.status?.wonCount || 0) * hammerPrice,
+    });
+  }
+
+  for (const { organization, resource: pool } of onDemandNodePools) {
+    const serverClass = pool.spec?.serverClass || 'unknown';
+    const hourlyCost = onDemandCostPerHour(serverClassesByName.get(serverClass));
+    costs.push({
+      organization,
+      cloudspace: pool.spec?.cloudSpace || 'unknown',
+      nodepool: pool.metadata?.name || 'unknown',
+      serverclass: serverClass,
+      poolType: 'ondemand',
+      costPerHour: hourlyCost === undefined ? undefined : (pool.status?.reservedCount || 0) * hourlyCost,
+    });
+  }
+
+  return costs;
+}
+
+function indexServerClasses(serverClasses: ServerClass[]): Map<string, ServerClass> {
+  const index = new Map<string, ServerClass>();
+  for (const serverClass of serverClasses) {
+    if (serverClass.metadata?.name) {
+      index.set(serverClass.metadata.name, serverClass);
+    }
+  }
+  return index;
+}
+
+/**
+ * Hourly on-demand cost of a server class. The API reports the cost per
+ * `interval` (a Go duration); a missing interval is treated as hourly.
+ */
+function onDemandCostPerHour(serverClass: ServerClass | undefined): number | undefined {
+  const pricing = serverClass?.spec?.onDemandPricing;
+  const cost = parsePrice(pricing?.cost);
+  if (cost === undefined) {
+    return undefined;
+  }
+
+  if (!pricing?.interval) {
+    return cost;
+  }
+
+  const intervalSeconds = parseDuration(pricing.interval);
+  if (intervalSeconds === undefined || intervalSeconds <= 0) {
+    return undefined;
+  }
+
+  return cost * (3600 / intervalSeconds);
+}
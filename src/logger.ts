@@ -0,0 +1,171 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error'] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export type LogFields = Record<string, unknown>;
+
+export interface LoggerOptions {
+  // Least severe level written; defaults to info
+  level?: LogLevel;
+  // Receives each JSON line; defaults to stdout, or stderr for warnings and errors
+  write?: (line: string, level: LogLevel) => void;
+}
+
+const REDACTED = '[REDACTED]';
+
+// Field names whose values are always credentials
+const SECRET_FIELD_PATTERN = /^(?:refresh_?token|id_?token|access_?token|authorization|token)$/i;
+
+// Nesting below this depth is not written
+const MAX_FIELD_DEPTH = 5;
+
+// JSON Web Tokens, such as the id_token used as the bearer token
+const JWT_PATTERN = /eyJ[\w-]+\.[\w-]+\.[\w-]*/g;
+
+// Fields added to every line logged within runWithLogContext, e.g. a collection cycle id
+const logContext = new AsyncLocalStorage<LogFields>();
+
+/**
+ * Run `fn` with `fields` added to every line logged inside it, including from
+ * asynchronous work it starts.
+ */
+export function runWithLogContext<T>(fields: LogFields, fn: () => T): T {
+  return logContext.run({ ...logContext.getStore(), ...fields }, fn);
+}
+
+export function isLogLevel(value: string): value is LogLevel {
+  return (LOG_LEVELS as readonly string[]).includes(value);
+}
+
+/**
+ * Structured JSON logger. Credentials are redacted from every line: fields
+ * named like tokens, anything shaped like a JWT, and any value registered
+ * with setSecret.
+ */
+export class Logger {
+  private level: LogLevel;
+  private write: (line: string, level: LogLevel) => void;
+  private fields: LogFields;
+  // Shared with child loggers so a secret registered anywhere is redacted everywhere
+  private secrets: Map<string, string>;
+
+  constructor(options: LoggerOptions = {}, fields: LogFields = {}, secrets: Map<string, string> = new Map()) {
+    this.level = options.level || 'info';
+    this.write = options.write || writeToConsole;
+    this.fields = fields;
+    this.secrets = secrets;
+  }
+
+  /**
+   * A logger that adds `fields` to every line and shares this logger's level and secrets.
+   */
+  child(fields: LogFields): Logger {
+    return new Logger({ level: this.level, write: this.write }, { ...this.fields, ...fields }, this.secrets);
+  }
+
+  /**
+   * Register a value to redact under `name`, replacing the value previously
+   * registered under that name, e.g. an id token that has been refreshed.
+   */
+  setSecret(name: string, secret: string | undefined | null): void {
+    if (secret) {
+      this.secrets.set(name, secret);
+    } else {
+      this.secrets.delete(name);
+    }
+  }
+
+  /**
+   * Redact free text that is served outside the log, such as an error message.
+   */
+  redact(text: string): string {
+    let redacted = text.replace(JWT_PATTERN, REDACTED);
+    for (const secret of this.secrets.values()) {
+      redacted = redacted.split(secret).join(REDACTED);
+    }
+    return redacted;
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.log('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.log('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.log('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.log('error', message, fields);
+  }
+
+  private log(level: LogLevel, message: string, fields: LogFields = {}): void {
+    if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(this.level)) {
+      return;
+    }
+
+    const entry = {
+      time: new Date().toISOString(),
+      level,
+      msg: message,
+      ...logContext.getStore(),
+      ...this.fields,
+      ...fields,
+    };
+
+    let line = JSON.stringify(redactFields(entry)).replace(JWT_PATTERN, REDACTED);
+    for (const secret of this.secrets.values()) {
+      line = line.split(JSON.stringify(secret).slice(1, -1)).join(REDACTED);
+    }
+
+    this.write(line, level);
+  }
+}
+
+function writeToConsole(line: string, level: LogLevel): void {
+  if (level === 'warn' || level === 'error') {
+    console.error(line);
+  } else {
+    console.log(line);
+  }
+}
+
+/**
+ * Replace credential fields and turn errors into plain objects so they serialize.
+ * Values nested too deeply or referring back to an enclosing object are replaced
+ * by placeholders rather than written unredacted or left to fail serialization.
+ */
+function redactFields(value: unknown, depth = 0, ancestors: object[] = []): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message };
+  }
+
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+
+  if (ancestors.includes(value)) {
+    return '[Circular]';
+  }
+
+  if (depth > MAX_FIELD_DEPTH) {
+    return '[Truncated]';
+  }
+
+  const nested = [...ancestors, value];
+  if (Array.isArray(value)) {
+    return value.map((item) => redactFields(item, depth + 1, nested));
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      SECRET_FIELD_PATTERN.test(key) ? REDACTED : redactFields(item, depth + 1, nested),
+    ])
+  );
+}
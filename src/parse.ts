@@ -0,0 +1,109 @@
+/**
+ * Parse a price string from the Rackspace Spot API into a number.
+ *
+ * Prices are returned as strings in a few formats (e.g. "0.0012", "$0.009",
+ * "$1,234.50", "USD 0.01" or "$0.02/hr"). Returns undefined when the value
+ * is missing or not a valid number.
+ */
+export function parsePrice(value: string | undefined | null): number | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  let normalized = value
+    .trim()
+    .replace(/^(?:US\$|USD|\$)\s*/i, '')
+    .replace(/\s*(?:USD)?\s*(?:\/\s*(?:hr|hour|h))?$/i, '');
+
+  // Only strip commas used as thousands separators
+  if (/^[-+]?\d{1,3}(?:,\d{3})+(?:\.\d+)?$/.test(normalized)) {
+    normalized = normalized.replace(/,/g, '');
+  }
+
+  if (!/^[-+]?(?:\d+(?:\.\d*)?|\.\d+)$/.test(normalized)) {
+    return undefined;
+  }
+
+  return Number(normalized);
+}
+
+const DURATION_UNIT_SECONDS: Record<string, number> = {
+  ns: 1e-9,
+  us: 1e-6,
+  µs: 1e-6,
+  μs: 1e-6,
+  ms: 1e-3,
+  s: 1,
+  m: 60,
+  h: 3600,
+};
+
+/**
+ * Parse a Go duration string (e.g. "1h", "20s", "1h6m") into seconds.
+ *
+ * Returns undefined when the value is missing or not a valid duration.
+ */
+export function parseDuration(value: string | undefined | null): number | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  const normalized = value.trim();
+  if (normalized === '0') {
+    return 0;
+  }
+
+  const match = /^([-+]?)((?:\d+(?:\.\d*)?|\.\d+)(?:ns|us|µs|μs|ms|s|m|h))+$/.exec(normalized);
+  if (!match) {
+    return undefined;
+  }
+
+  let seconds = 0;
+  for (const [, amount, unit] of normalized.matchAll(/(\d+(?:\.\d*)?|\.\d+)(ns|us|µs|μs|ms|s|m|h)/g)) {
+    seconds += Number(amount) * DURATION_UNIT_SECONDS[unit!]!;
+  }
+
+  return match[1] === '-' ? -seconds : seconds;
+}
+
+// HTTP date as sent by servers (RFC 7231 IMF-fixdate), e.g. "Tue, 02 Jan 2024 15:04:05 GMT"
+const IMF_FIXDATE_PATTERN = /^(?:Mon|Tue|Wed|Thu|Fri|Sat|Sun), \d{2} (?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec) \d{4} \d{2}:\d{2}:\d{2} GMT$/;
+
+/**
+ * Parse an HTTP Retry-After header, either delay-seconds ("120") or an
+ * HTTP date in IMF-fixdate form, into seconds from `now` (Unix milliseconds).
+ *
+ * Returns undefined when the value is missing or invalid; dates in the past give 0.
+ */
+export function parseRetryAfter(value: string | undefined | null, now: number = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const normalized = value.trim();
+  if (/^\d+$/.test(normalized)) {
+    return Number(normalized);
+  }
+
+  // Only the IMF-fixdate form, since Date.parse also accepts values such as "1.5" or "-1"
+  if (!IMF_FIXDATE_PATTERN.test(normalized)) {
+    return undefined;
+  }
+
+  const milliseconds = Date.parse(normalized);
+  return Number.isNaN(milliseconds) ? undefined : Math.max((milliseconds - now) / 1000, 0);
+}
+
+/**
+ * Parse an RFC 3339 timestamp (e.g. "2024-01-02T15:04:05Z") into Unix seconds.
+ *
+ * Returns undefined when the value is missing or not a valid timestamp.
+ */
+export function parseTimestamp(value: string | undefined | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const milliseconds = Date.parse(value);
+  return Number.isNaN(milliseconds) ? undefined : milliseconds / 1000;
+}
@@ -0,0 +1,63 @@
+import type { CollectorSection, SectionStatus } from './collector';
+
+// Sections the exporter cannot do without. The rest come from optional
+// pricing endpoints and are reported, but do not affect readiness.
+export const REQUIRED_SECTIONS: readonly CollectorSection[] = ['cloudspaces', 'spot_nodepools', 'ondemand_nodepools'];
+
+export interface ReadinessOptions {
+  // Oldest acceptable data per section; undefined skips the age check
+  maxDataAgeMs?: number;
+  now?: number;
+}
+
+export interface SectionReadiness {
+  ready: boolean;
+  required: boolean;
+  lastSuccess: string | null;
+  lastError: string | null;
+  lastErrorAt: string | null;
+  dataAgeSeconds: number | null;
+}
+
+export interface Readiness {
+  ready: boolean;
+  sections: Record<string, SectionReadiness>;
+}
+
+/**
+ * Decide readiness from the collector's section history. Every required
+ * section must have succeeded at least once and, when `maxDataAgeMs` is set,
+ * no longer ago than that.
+ */
+export function checkReadiness(
+  sections: Record<CollectorSection, SectionStatus>,
+  options: ReadinessOptions = {}
+): Readiness {
+  const now = options.now ?? Date.now();
+  const result: Readiness = { ready: true, sections: {} };
+
+  for (const [section, status] of Object.entries(sections)) {
+    const dataAgeMs = status.lastSuccessAt === undefined ? undefined : now - status.lastSuccessAt;
+    const ready =
+      dataAgeMs !== undefined && (options.maxDataAgeMs === undefined || dataAgeMs <= options.maxDataAgeMs);
+
+    const required = REQUIRED_SECTIONS.includes(section as CollectorSection);
+    if (required) {
+      result.ready &&= ready;
+    }
+    result.sections[section] = {
+      ready,
+      required,
+      lastSuccess: toISOString(status.lastSuccessAt),
+      lastError: status.lastError ?? null,
+      lastErrorAt: toISOString(status.lastErrorAt),
+      dataAgeSeconds: dataAgeMs === undefined ? null : dataAgeMs / 1000,
+    };
+  }
+
+  return result;
+}
+
+function toISOString(timestamp: number | undefined): string | null {
+  return timestamp === undefined ? null : new Date(timestamp).toISOString();
+}
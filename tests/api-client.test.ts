@@ -1,5 +1,7 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Registry } from 'prom-client';
 import { RackspaceSpotClient } from '../src/api-client';
+import { Logger } from '../src/logger';
 
 /**
  * Unit tests for RackspaceSpotClient
@@ -11,14 +13,30 @@ import { RackspaceSpotClient } from '../src/api-client';
  * - Error handling
  */
 
+interface MockResponse {
+  ok: boolean;
+  status: number;
+  data: unknown;
+  headers?: Record<string, string>;
+}
+
 // Create a mock fetch that returns proper Response-like objects
 function createMockFetch() {
-  const responses: Map<string, { ok: boolean; status: number; data: unknown }> = new Map();
-
-  const mockFetch = vi.fn(async (url: string, options?: RequestInit) => {
-    let matchedResponse: { ok: boolean; status: number; data: unknown } | undefined;
+  const responses: Map<string, MockResponse> = new Map();
+  // One-off responses, returned in order before falling back to `responses`
+  const queued: { pattern: string; response: MockResponse }[] = [];
+
+  const mockFetch = vi.fn(async (input: string | Request, options?: RequestInit) => {
+    // openapi-fetch passes a Request, the OAuth call a URL string
+    const url = typeof input === 'string' ? input : input.url;
+    let matchedResponse: MockResponse | undefined;
+
+    const queuedIndex = queued.findIndex(({ pattern }) => url.includes(pattern));
+    if (queuedIndex !== -1) {
+      matchedResponse = queued.splice(queuedIndex, 1)[0]!.response;
+    }
 
-    for (const [pattern, response] of responses) {
+    for (const [pattern, response] of matchedResponse ? [] : responses) {
       if (url.includes(pattern)) {
         matchedResponse = response;
         break;
@@ -44,7 +62,7 @@ function createMockFetch() {
     }
 
     const responseData = matchedResponse.data;
-    const headers = new Headers({ 'content-type': 'application/json' });
+    const headers = new Headers({ 'content-type': 'application/json', ...matchedResponse.headers });
 
     return {
       ok: matchedResponse.ok,
@@ -61,9 +79,12 @@ function createMockFetch() {
 
   return {
     mockFetch,
-    setResponse: (urlPattern: string, response: { ok: boolean; status: number; data: unknown }) => {
+    setResponse: (urlPattern: string, response: MockResponse) => {
       responses.set(urlPattern, response);
     },
+    queueResponse: (urlPattern: string, response: MockResponse) => {
+      queued.push({ pattern: urlPattern, response });
+    },
     clearResponses: () => responses.clear(),
   };
 }
@@ -143,6 +164,25 @@ describe('RackspaceSpotClient', () => {
       globalThis.fetch = originalFetch;
     });
 
+    it('should share one token request between concurrent calls', async () => {
+      const { mockFetch, setResponse } = createMockFetch();
+      const originalFetch = globalThis.fetch;
+      globalThis.fetch = mockFetch as unknown as typeof fetch;
+
+      const client = new RackspaceSpotClient({ refreshToken: mockRefreshToken });
+      setResponse('/cloudspaces', { ok: true, status: 200, data: { items: [] } });
+      setResponse('/serverclasses', { ok: true, status: 200, data: { items: [] } });
+
+      await Promise.all([client.listCloudSpaces('org-a'), client.listCloudSpaces('org-b'), client.listServerClasses()]);
+
+      const tokenRequests = mockFetch.mock.calls.filter(
+        ([input]) => typeof input === 'string' && input.includes('/oauth/token')
+      );
+      expect(tokenRequests).toHaveLength(1);
+
+      globalThis.fetch = originalFetch;
+    });
+
     it('should throw on authentication failure', async () => {
       const { mockFetch, setResponse } = createMockFetch();
 
@@ -168,6 +208,23 @@ describe('RackspaceSpotClient', () => {
       globalThis.fetch = originalFetch;
     });
 
+    it('should not echo the OAuth response body in the error message', async () => {
+      const { mockFetch, setResponse } = createMockFetch();
+      globalThis.fetch = mockFetch as unknown as typeof fetch;
+
+      setResponse('/oauth/token', {
+        ok: false,
+        status: 400,
+        data: { error: 'invalid_grant', error_description: 'Token expired', refresh_token: mockRefreshToken },
+      });
+
+      const client = new RackspaceSpotClient({ refreshToken: mockRefreshToken });
+      const error = await client.listRegions().catch((err: unknown) => err);
+
+      expect(error).toBeInstanceOf(Error);
+      expect((error as Error).message).toBe('Failed to authenticate: 400 invalid_grant: Token expired');
+    });
+
     it('should use custom auth URL when provided', async () => {
       const { mockFetch, setResponse } = createMockFetch();
 
@@ -209,6 +266,412 @@ describe('RackspaceSpotClient', () => {
     });
   });
 
+  describe('scrape metrics', () => {
+    it('should record success, duration and last success time per endpoint', async () => {
+      const { mockFetch, setResponse } = createMockFetch();
+      const originalFetch = globalThis.fetch;
+      globalThis.fetch = mockFetch as unknown as typeof fetch;
+
+      const registry = new Registry();
+      const client = new RackspaceSpotClient({ refreshToken: mockRefreshToken, registry });
+      setResponse('/cloudspaces', { ok: true, status: 200, data: { items: [] } });
+
+      await client.listCloudSpaces('org-test');
+
+      const metrics = await registry.metrics();
+      expect(metrics).toContain('rackspace_spot_scrape_success{endpoint="cloudspaces"} 1');
+      expect(metrics).toContain('rackspace_spot_scrape_success{endpoint="oauth_token"} 1');
+      expect(metrics).toMatch(/rackspace_spot_scrape_duration_seconds\{endpoint="cloudspaces"\} \d/);
+      expect(metrics).toMatch(/rackspace_spot_last_successful_scrape_timestamp_seconds\{endpoint="cloudspaces"\} \d+/);
+      expect(metrics).not.toMatch(/rackspace_spot_scrape_errors_total\{/);
+
+      globalThis.fetch = originalFetch;
+    });
+
+    it('should count errors by endpoint and HTTP status', async () => {
+      const { mockFetch, setResponse } = createMockFetch();
+      const originalFetch = globalThis.fetch;
+      globalThis.fetch = mockFetch as unknown as typeof fetch;
+
+      const registry = new Registry();
+      const client = new RackspaceSpotClient({ refreshToken: mockRefreshToken, registry, maxRetries: 0 });
+      setResponse('/serverclasses', { ok: false, status: 503, data: { message: 'unavailable' } });
+
+      await expect(client.listServerClasses()).rejects.toThrow('Failed to list server classes');
+      await expect(client.listServerClasses()).rejects.toThrow('Failed to list server classes');
+
+      const metrics = await registry.metrics();
+      expect(metrics).toContain('rackspace_spot_scrape_success{endpoint="serverclasses"} 0');
+      expect(metrics).toContain('rackspace_spot_scrape_errors_total{endpoint="serverclasses",status="503"} 2');
+      expect(metrics).not.toMatch(/rackspace_spot_last_successful_scrape_timestamp_seconds\{endpoint="serverclasses"\}/);
+
+      globalThis.fetch = originalFetch;
+    });
+
+    it('should record failed authentication and calls without a response', async () => {
+      const { mockFetch, setResponse } = createMockFetch();
+      const originalFetch = globalThis.fetch;
+      globalThis.fetch = mockFetch as unknown as typeof fetch;
+
+      const registry = new Registry();
+      const client = new RackspaceSpotClient({ refreshToken: mockRefreshToken, registry });
+      setResponse('/oauth/token', { ok: false, status: 401, data: { error: 'Invalid refresh token' } });
+
+      await expect(client.listRegions()).rejects.toThrow('Failed to authenticate');
+
+      const metrics = await registry.metrics();
+      expect(metrics).toContain('rackspace_spot_scrape_errors_total{endpoint="oauth_token",status="401"} 1');
+      expect(metrics).toContain('rackspace_spot_scrape_errors_total{endpoint="regions",status="none"} 1');
+
+      globalThis.fetch = originalFetch;
+    });
+  });
+
+  describe('logging', () => {
+    it('should log endpoint, status and duration of every API call', async () => {
+      const { mockFetch, setResponse } = createMockFetch();
+      const originalFetch = globalThis.fetch;
+      globalThis.fetch = mockFetch as unknown as typeof fetch;
+
+      const lines: Record<string, unknown>[] = [];
+      const logger = new Logger({ level: 'debug', write: (line) => lines.push(JSON.parse(line)) });
+      const client = new RackspaceSpotClient({ refreshToken: mockRefreshToken, logger, maxRetries: 0 });
+      setResponse('/cloudspaces', { ok: true, status: 200, data: { items: [] } });
+      setResponse('/serverclasses', { ok: false, status: 503, data: {} });
+
+      await client.listCloudSpaces('org-test');
+      await expect(client.listServerClasses()).rejects.toThrow('Failed to list server classes');
+
+      expect(lines.map(({ level, endpoint, status }) => ({ level, endpoint, status }))).toEqual([
+        { level: 'debug', endpoint: 'oauth_token', status: 200 },
+        { level: 'debug', endpoint: 'cloudspaces', status: 200 },
+        { level: 'warn', endpoint: 'serverclasses', status: 503 },
+        { level: 'debug', endpoint: undefined, status: 503 },
+      ]);
+      expect(lines[1]).toMatchObject({ component: 'api-client', duration_seconds: expect.any(Number) });
+
+      globalThis.fetch = originalFetch;
+    });
+
+    it('should never log the refresh token or the id token', async () => {
+      const { mockFetch, setResponse } = createMockFetch();
+      const originalFetch = globalThis.fetch;
+      globalThis.fetch = mockFetch as unknown as typeof fetch;
+
+      const written: string[] = [];
+      const logger = new Logger({ level: 'debug', write: (line) => written.push(line) });
+      const client = new RackspaceSpotClient({ refreshToken: 'secret-refresh-token', logger });
+      setResponse('/oauth/token', {
+        ok: true,
+        status: 200,
+        data: { id_token: 'secret-id-token', access_token: 'secret-access-token', expires_in: 86400 },
+      });
+      await client.listOrganizations().catch(() => undefined);
+
+      logger.warn('Unexpected response for secret-refresh-token', { error: new Error('Bearer secret-id-token') });
+
+      expect(written.join('\n')).not.toMatch(/secret-refresh-token|secret-id-token/);
+      expect(written.at(-1)).toContain('[REDACTED]');
+
+      globalThis.fetch = originalFetch;
+    });
+  });
+
+  describe('retries', () => {
+    let originalFetch: typeof fetch;
+
+    beforeEach(() => {
+      originalFetch = globalThis.fetch;
+    });
+
+    afterEach(() => {
+      globalThis.fetch = originalFetch;
+      vi.useRealTimers();
+    });
+
+    function apiCalls(mockFetch: ReturnType<typeof createMockFetch>['mockFetch'], pattern: string): number {
+      return mockFetch.mock.calls.filter(([input]) =>
+        (typeof input === 'string' ? input : input.url).includes(pattern)
+      ).length;
+    }
+
+    it('should retry server errors and rate limiting until the call succeeds', async () => {
+      const { mockFetch, setResponse, queueResponse } = createMockFetch();
+      globalThis.fetch = mockFetch as unknown as typeof fetch;
+
+      const client = new RackspaceSpotClient({ refreshToken: mockRefreshToken, retryBaseDelayMs: 1 });
+      queueResponse('/cloudspaces', { ok: false, status: 503, data: {} });
+      queueResponse('/cloudspaces', { ok: false, status: 429, data: {} });
+      setResponse('/cloudspaces', { ok: true, status: 200, data: { items: [{ metadata: { name: 'cs-1' } }] } });
+
+      const result = await client.listCloudSpaces('org-test');
+
+      expect(result?.items).toHaveLength(1);
+      expect(apiCalls(mockFetch, '/cloudspaces')).toBe(3);
+    });
+
+    it('should give up after the configured number of retries', async () => {
+      const { mockFetch, setResponse } = createMockFetch();
+      globalThis.fetch = mockFetch as unknown as typeof fetch;
+
+      const client = new RackspaceSpotClient({ refreshToken: mockRefreshToken, maxRetries: 2, retryBaseDelayMs: 1 });
+      setResponse('/cloudspaces', { ok: false, status: 500, data: { message: 'boom' } });
+
+      await expect(client.listCloudSpaces('org-test')).rejects.toThrow('Failed to list cloudspaces');
+      expect(apiCalls(mockFetch, '/cloudspaces')).toBe(3);
+    });
+
+    it('should not retry client errors', async () => {
+      const { mockFetch, setResponse } = createMockFetch();
+      globalThis.fetch = mockFetch as unknown as typeof fetch;
+
+      const client = new RackspaceSpotClient({ refreshToken: mockRefreshToken, retryBaseDelayMs: 1 });
+      setResponse('/cloudspaces', { ok: false, status: 404, data: { message: 'not found' } });
+
+      await expect(client.listCloudSpaces('org-test')).rejects.toThrow('Failed to list cloudspaces');
+      expect(apiCalls(mockFetch, '/cloudspaces')).toBe(1);
+    });
+
+    it('should build error messages from the status reason and message', async () => {
+      const { mockFetch, setResponse } = createMockFetch();
+      globalThis.fetch = mockFetch as unknown as typeof fetch;
+
+      const client = new RackspaceSpotClient({ refreshToken: mockRefreshToken, retryBaseDelayMs: 1 });
+      setResponse('/cloudspaces', {
+        ok: false,
+        status: 403,
+        data: { kind: 'Status', reason: 'Forbidden', message: 'cloudspaces is forbidden', details: { kind: 'cloudspaces' } },
+      });
+
+      await expect(client.listCloudSpaces('org-test')).rejects.toThrow(
+        /^Failed to list cloudspaces: 403 Forbidden: cloudspaces is forbidden$/
+      );
+    });
+
+    it('should retry authentication after a network error', async () => {
+      const { mockFetch, setResponse } = createMockFetch();
+      globalThis.fetch = mockFetch as unknown as typeof fetch;
+      mockFetch.mockRejectedValueOnce(new TypeError('fetch failed'));
+
+      const client = new RackspaceSpotClient({ refreshToken: mockRefreshToken, retryBaseDelayMs: 1 });
+      setResponse('/cloudspaces', { ok: true, status: 200, data: { items: [] } });
+
+      await client.listCloudSpaces('org-test');
+
+      expect(apiCalls(mockFetch, '/oauth/token')).toBe(2);
+    });
+
+    it('should wait as long as the Retry-After header asks', async () => {
+      vi.useFakeTimers();
+      const { mockFetch, setResponse, queueResponse } = createMockFetch();
+      globalThis.fetch = mockFetch as unknown as typeof fetch;
+
+      const client = new RackspaceSpotClient({ refreshToken: mockRefreshToken, retryBaseDelayMs: 1 });
+      queueResponse('/serverclasses', { ok: false, status: 429, data: {}, headers: { 'Retry-After': '5' } });
+      setResponse('/serverclasses', { ok: true, status: 200, data: { items: [] } });
+
+      const result = client.listServerClasses();
+
+      await vi.advanceTimersByTimeAsync(4900);
+      expect(apiCalls(mockFetch, '/serverclasses')).toBe(1);
+
+      await vi.advanceTimersByTimeAsync(100);
+      await result;
+      expect(apiCalls(mockFetch, '/serverclasses')).toBe(2);
+    });
+
+    it('should fail instead of retrying early when Retry-After exceeds the maximum delay', async () => {
+      const { mockFetch, setResponse } = createMockFetch();
+      globalThis.fetch = mockFetch as unknown as typeof fetch;
+
+      const client = new RackspaceSpotClient({ refreshToken: mockRefreshToken, retryMaxDelayMs: 30000 });
+      setResponse('/serverclasses', { ok: false, status: 429, data: {}, headers: { 'Retry-After': '120' } });
+
+      await expect(client.listServerClasses()).rejects.toThrow('Failed to list server classes');
+      expect(apiCalls(mockFetch, '/serverclasses')).toBe(1);
+    });
+
+    it('should wait as long as a Kubernetes Status response asks', async () => {
+      vi.useFakeTimers();
+      const { mockFetch, setResponse, queueResponse } = createMockFetch();
+      globalThis.fetch = mockFetch as unknown as typeof fetch;
+
+      const client = new RackspaceSpotClient({ refreshToken: mockRefreshToken, retryBaseDelayMs: 1 });
+      queueResponse('/serverclasses', {
+        ok: false,
+        status: 503,
+        data: { kind: 'Status', reason: 'ServiceUnavailable', details: { retryAfterSeconds: 3 } },
+      });
+      setResponse('/serverclasses', { ok: true, status: 200, data: { items: [] } });
+
+      const result = client.listServerClasses();
+
+      await vi.advanceTimersByTimeAsync(2900);
+      expect(apiCalls(mockFetch, '/serverclasses')).toBe(1);
+
+      await vi.advanceTimersByTimeAsync(100);
+      await result;
+      expect(apiCalls(mockFetch, '/serverclasses')).toBe(2);
+    });
+
+    it('should time out requests that take too long', async () => {
+      const { mockFetch } = createMockFetch();
+      globalThis.fetch = mockFetch as unknown as typeof fetch;
+      // Token request succeeds, the API call hangs until its signal aborts
+      mockFetch.mockImplementation(async (input: string | Request) => {
+        if (typeof input === 'string') {
+          return {
+            ok: true,
+            status: 200,
+            json: () => Promise.resolve({ id_token: 'token', expires_in: 86400 }),
+          } as Response;
+        }
+        return new Promise<Response>((_, reject) => {
+          input.signal.addEventListener('abort', () => reject(input.signal.reason));
+        });
+      });
+
+      const client = new RackspaceSpotClient({
+        refreshToken: mockRefreshToken,
+        maxRetries: 1,
+        requestTimeoutMs: 10,
+        retryBaseDelayMs: 1,
+      });
+
+      await expect(client.listRegions()).rejects.toThrow();
+      expect(apiCalls(mockFetch, '/regions')).toBe(2);
+    });
+  });
+
+  describe('organizations', () => {
+    it('should read every page of organizations', async () => {
+      const { mockFetch, queueResponse } = createMockFetch();
+      const originalFetch = globalThis.fetch;
+      globalThis.fetch = mockFetch as unknown as typeof fetch;
+
+      const client = new RackspaceSpotClient({ refreshToken: mockRefreshToken });
+      queueResponse('/organizations', {
+        ok: true,
+        status: 200,
+        data: {
+          start: 0,
+          limit: 1,
+          total: 2,
+          next: '/apis/auth.ngpc.rxt.io/v1/organizations?start=1&limit=1',
+          organizations: [{ id: 'org_aaa', name: 'org-alpha' }],
+        },
+      });
+      queueResponse('/organizations', {
+        ok: true,
+        status: 200,
+        data: { start: 1, limit: 1, total: 2, organizations: [{ id: 'org_bbb', name: 'org-beta' }] },
+      });
+
+      const result = await client.listOrganizations();
+
+      expect(result.organizations.map(({ id }) => id)).toEqual(['org_aaa', 'org_bbb']);
+      const urls = mockFetch.mock.calls
+        .map(([input]) => (typeof input === 'string' ? input : input.url))
+        .filter((url) => url.includes('/organizations'));
+      expect(urls[0]).not.toContain('?');
+      expect(urls[1]).toContain('/organizations?start=1&limit=1');
+
+      globalThis.fetch = originalFetch;
+    });
+
+    it('should fail when the next page link does not advance', async () => {
+      const { mockFetch, setResponse } = createMockFetch();
+      const originalFetch = globalThis.fetch;
+      globalThis.fetch = mockFetch as unknown as typeof fetch;
+
+      const client = new RackspaceSpotClient({ refreshToken: mockRefreshToken });
+      setResponse('/organizations', {
+        ok: true,
+        status: 200,
+        data: { next: '/apis/auth.ngpc.rxt.io/v1/organizations?start=1', organizations: [] },
+      });
+
+      await expect(client.listOrganizations()).rejects.toThrow('pagination did not end');
+
+      globalThis.fetch = originalFetch;
+    });
+  });
+
+  describe('public data', () => {
+    let originalFetch: typeof fetch;
+
+    beforeEach(() => {
+      originalFetch = globalThis.fetch;
+    });
+
+    afterEach(() => {
+      globalThis.fetch = originalFetch;
+    });
+
+    // The single request made, which must not have authenticated first
+    function publicDataRequest(mockFetch: ReturnType<typeof createMockFetch>['mockFetch']): Request {
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      return mockFetch.mock.calls[0]![0] as Request;
+    }
+
+    it('should fetch price history from the public data host without a token', async () => {
+      const { mockFetch, setResponse } = createMockFetch();
+      globalThis.fetch = mockFetch as unknown as typeof fetch;
+
+      const client = new RackspaceSpotClient({ refreshToken: mockRefreshToken });
+      setResponse('/history/', { ok: true, status: 200, data: { auction: 'gp.vs1.medium-dfw', history: [] } });
+
+      await client.getPriceHistory('gp.vs1.medium-dfw');
+
+      const request = publicDataRequest(mockFetch);
+      expect(request.url).toBe('https://ngpc-prod-public-data.s3.us-east-2.amazonaws.com/history/gp.vs1.medium-dfw');
+      expect(request.headers.get('Authorization')).toBeNull();
+    });
+
+    it('should fetch price percentiles from the public data host without a token', async () => {
+      const { mockFetch, setResponse } = createMockFetch();
+      globalThis.fetch = mockFetch as unknown as typeof fetch;
+
+      const client = new RackspaceSpotClient({ refreshToken: mockRefreshToken });
+      setResponse('/percentiles.json', { ok: true, status: 200, data: {} });
+
+      await client.getPercentiles();
+
+      const request = publicDataRequest(mockFetch);
+      expect(request.url).toBe('https://ngpc-prod-public-data.s3.us-east-2.amazonaws.com/percentiles.json');
+      expect(request.headers.get('Authorization')).toBeNull();
+    });
+
+    it('should fetch comparable prices from the public data host without a token', async () => {
+      const { mockFetch, setResponse } = createMockFetch();
+      globalThis.fetch = mockFetch as unknown as typeof fetch;
+
+      const client = new RackspaceSpotClient({ refreshToken: mockRefreshToken });
+      setResponse('/comparable_prices.json', { ok: true, status: 200, data: {} });
+
+      await client.getComparablePrices();
+
+      const request = publicDataRequest(mockFetch);
+      expect(request.url).toBe('https://ngpc-prod-public-data.s3.us-east-2.amazonaws.com/comparable_prices.json');
+      expect(request.headers.get('Authorization')).toBeNull();
+    });
+
+    it('should use a custom public data URL', async () => {
+      const { mockFetch, setResponse } = createMockFetch();
+      globalThis.fetch = mockFetch as unknown as typeof fetch;
+
+      const client = new RackspaceSpotClient({
+        refreshToken: mockRefreshToken,
+        publicDataBaseUrl: 'https://custom-data.example.com',
+      });
+      setResponse('/history/', { ok: true, status: 200, data: { history: [] } });
+
+      await client.getPriceHistory('gp.vs1.medium-dfw');
+
+      expect(publicDataRequest(mockFetch).url).toBe('https://custom-data.example.com/history/gp.vs1.medium-dfw');
+    });
+  });
+
   describe('default URLs', () => {
     it('should use default API URL', () => {
       const client = new RackspaceSpotClient({ refreshToken: mockRefreshToken });
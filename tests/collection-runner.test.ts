@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { CollectionRunner } from '../src/collection-runner';
+
+/**
+ * Unit tests for CollectionRunner
+ */
+
+// A collect function whose cycles finish only when the test resolves them
+function createDeferredCollect() {
+  const pending: (() => void)[] = [];
+  const collect = vi.fn(
+    () =>
+      new Promise<void>((resolve) => {
+        pending.push(resolve);
+      })
+  );
+  const finish = async () => {
+    pending.shift()?.();
+    await Promise.resolve();
+  };
+  return { collect, finish };
+}
+
+describe('CollectionRunner', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('run', () => {
+    it('should share one cycle between concurrent callers', async () => {
+      const { collect, finish } = createDeferredCollect();
+      const runner = new CollectionRunner(collect);
+
+      const first = runner.run();
+      const second = runner.run();
+      await finish();
+      await Promise.all([first, second]);
+
+      expect(collect).toHaveBeenCalledTimes(1);
+    });
+
+    it('should start a new cycle once the previous one finished', async () => {
+      const collect = vi.fn().mockResolvedValue(undefined);
+      const runner = new CollectionRunner(collect);
+
+      await runner.run();
+      await runner.run();
+
+      expect(collect).toHaveBeenCalledTimes(2);
+    });
+
+    it('should allow a new cycle after a failed one', async () => {
+      const collect = vi.fn().mockRejectedValueOnce(new Error('API Error')).mockResolvedValue('ok');
+      const runner = new CollectionRunner(collect);
+
+      await expect(runner.run()).rejects.toThrow('API Error');
+      await expect(runner.run()).resolves.toBe('ok');
+    });
+  });
+
+  describe('refresh', () => {
+    it('should collect on the first refresh', async () => {
+      const collect = vi.fn().mockResolvedValue(undefined);
+      const runner = new CollectionRunner(collect);
+
+      await runner.refresh(30000);
+
+      expect(collect).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reuse data younger than the minimum age', async () => {
+      const collect = vi.fn().mockResolvedValue(undefined);
+      const runner = new CollectionRunner(collect);
+
+      await runner.refresh(30000);
+      vi.advanceTimersByTime(29000);
+      await runner.refresh(30000);
+      expect(collect).toHaveBeenCalledTimes(1);
+
+      vi.advanceTimersByTime(1000);
+      await runner.refresh(30000);
+      expect(collect).toHaveBeenCalledTimes(2);
+    });
+
+    it('should join a cycle in progress', async () => {
+      const { collect, finish } = createDeferredCollect();
+      const runner = new CollectionRunner(collect);
+
+      const first = runner.refresh(30000);
+      const second = runner.refresh(30000);
+      await finish();
+      await Promise.all([first, second]);
+
+      expect(collect).toHaveBeenCalledTimes(1);
+    });
+  });
+});
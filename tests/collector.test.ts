@@ -1,7 +1,8 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { Registry } from 'prom-client';
 import { RackspaceSpotCollector } from '../src/collector';
 import type { RackspaceSpotClient } from '../src/api-client';
+import { Logger } from '../src/logger';
 
 /**
  * Unit tests for RackspaceSpotCollector
@@ -19,6 +20,12 @@ function createMockClient(): RackspaceSpotClient {
     listCloudSpaces: vi.fn(),
     listSpotNodePools: vi.fn(),
     listOnDemandNodePools: vi.fn(),
+    listServerClasses: vi.fn(),
+    listRegions: vi.fn(),
+    getPriceHistory: vi.fn(),
+    getPercentiles: vi.fn(),
+    getComparablePrices: vi.fn(),
+    listOrganizations: vi.fn(),
   } as unknown as RackspaceSpotClient;
 }
 
@@ -43,10 +50,56 @@ describe('RackspaceSpotCollector', () => {
       const metricNames = metrics.map((m) => m.name);
 
       expect(metricNames).toContain('rackspace_spot_cloudspace_nodes_total');
+      expect(metricNames).toContain('rackspace_spot_cloudspace_info');
+      expect(metricNames).toContain('rackspace_spot_cloudspace_kubernetes_version_info');
+      expect(metricNames).toContain('rackspace_spot_cloudspace_version_drift');
+      expect(metricNames).toContain('rackspace_spot_cloudspace_created_timestamp_seconds');
+      expect(metricNames).toContain('rackspace_spot_cloudspace_first_ready_timestamp_seconds');
+      expect(metricNames).toContain('rackspace_spot_cloudspace_time_to_first_ready_seconds');
+      expect(metricNames).toContain('rackspace_spot_cloudspace_condition');
+      expect(metricNames).toContain('rackspace_spot_cloudspace_condition_last_transition_timestamp_seconds');
+      expect(metricNames).toContain('rackspace_spot_cloudspace_phase');
+      expect(metricNames).toContain('rackspace_spot_cloudspace_health');
+      expect(metricNames).toContain('rackspace_spot_cloudspace_upgrade_phase');
+      expect(metricNames).toContain('rackspace_spot_cloudspace_server_info');
+      expect(metricNames).toContain('rackspace_spot_cloudspace_servers');
+      expect(metricNames).toContain('rackspace_spot_cloudspace_servers_with_error');
+      expect(metricNames).toContain('rackspace_spot_cloudspace_pending_allocation_outstanding');
+      expect(metricNames).toContain('rackspace_spot_cloudspace_oldest_pending_allocation_age_seconds');
       expect(metricNames).toContain('rackspace_spot_spotnodepool_desired');
       expect(metricNames).toContain('rackspace_spot_spotnodepool_won_count');
+      expect(metricNames).toContain('rackspace_spot_spotnodepool_bid_price');
+      expect(metricNames).toContain('rackspace_spot_spotnodepool_bid_margin');
+      expect(metricNames).toContain('rackspace_spot_spotnodepool_bid_margin_ratio');
+      expect(metricNames).toContain('rackspace_spot_spotnodepool_autoscaling_enabled');
+      expect(metricNames).toContain('rackspace_spot_spotnodepool_autoscaling_min_nodes');
+      expect(metricNames).toContain('rackspace_spot_spotnodepool_autoscaling_max_nodes');
+      expect(metricNames).toContain('rackspace_spot_spotnodepool_autoscaling_headroom_ratio');
+      expect(metricNames).toContain('rackspace_spot_nodepool_fulfilment_ratio');
+      expect(metricNames).toContain('rackspace_spot_nodepool_shortfall');
+      expect(metricNames).toContain('rackspace_spot_nodepool_custom_metadata_requested');
+      expect(metricNames).toContain('rackspace_spot_nodepool_custom_metadata_applied');
+      expect(metricNames).toContain('rackspace_spot_nodepool_labels');
       expect(metricNames).toContain('rackspace_spot_ondemandnodepool_desired');
       expect(metricNames).toContain('rackspace_spot_ondemandnodepool_reserved_count');
+      expect(metricNames).toContain('rackspace_spot_region_info');
+      expect(metricNames).toContain('rackspace_spot_serverclass_market_price_per_hour');
+      expect(metricNames).toContain('rackspace_spot_serverclass_hammer_price_per_hour');
+      expect(metricNames).toContain('rackspace_spot_serverclass_available');
+      expect(metricNames).toContain('rackspace_spot_serverclass_capacity');
+      expect(metricNames).toContain('rackspace_spot_serverclass_deprecated');
+      expect(metricNames).toContain('rackspace_spot_serverclass_price_percentile');
+      expect(metricNames).toContain('rackspace_spot_serverclass_hyperscaler_average_price');
+      expect(metricNames).toContain('rackspace_spot_serverclass_comparable_price');
+      expect(metricNames).toContain('rackspace_spot_nodepool_estimated_cost_per_hour');
+      expect(metricNames).toContain('rackspace_spot_cloudspace_estimated_cost_per_hour');
+      expect(metricNames).toContain('rackspace_spot_organization_estimated_cost_per_hour');
+      expect(metricNames).toContain('rackspace_spot_cloudspace_unpriced_nodepools');
+      expect(metricNames).toContain('rackspace_spot_serverclass_history_latest_hammer_price');
+      expect(metricNames).toContain('rackspace_spot_serverclass_history_hammer_price_avg');
+      expect(metricNames).toContain('rackspace_spot_serverclass_history_stale');
+      expect(metricNames).toContain('rackspace_spot_collection_section_stale');
+      expect(metricNames).toContain('rackspace_spot_collection_section_last_success_timestamp_seconds');
     });
 
     it('should create its own registry if not provided', () => {
@@ -86,6 +139,201 @@ describe('RackspaceSpotCollector', () => {
       expect(metrics).toMatch(/rackspace_spot_cloudspace_nodes_total\{[^}]+\} 2/);
     });
 
+    it('should collect cloudspace info and kubernetes version drift', async () => {
+      vi.mocked(mockClient.listCloudSpaces).mockResolvedValue({
+        items: [
+          {
+            metadata: { name: 'cloudspace-1' },
+            spec: {
+              region: 'us-central-dfw-1',
+              kubernetesVersion: '1.31.1',
+              cni: 'cilium',
+              HAControlPlane: true,
+              deploymentType: 'gen2',
+            },
+            status: { currentKubernetesVersion: '1.30.4' },
+          },
+          {
+            metadata: { name: 'cloudspace-2' },
+            spec: { region: 'us-central-dfw-1', kubernetesVersion: '1.31.1', HAControlPlane: false },
+            status: { currentKubernetesVersion: 'v1.31.1' },
+          },
+        ],
+      } as any);
+      vi.mocked(mockClient.listSpotNodePools).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.listOnDemandNodePools).mockResolvedValue({ items: [] } as any);
+
+      await collector.collect();
+
+      const metrics = await registry.metrics();
+
+      expect(metrics).toMatch(
+        /rackspace_spot_cloudspace_info\{[^}]*cloudspace="cloudspace-1",cloudspace_region="us-central-dfw-1",cni="cilium",ha_control_plane="true",deployment_type="gen2"\} 1/
+      );
+      expect(metrics).toMatch(
+        /rackspace_spot_cloudspace_info\{[^}]*cloudspace="cloudspace-2"[^}]*cni="unknown",ha_control_plane="false",deployment_type="unknown"\} 1/
+      );
+      expect(metrics).toMatch(
+        /rackspace_spot_cloudspace_kubernetes_version_info\{[^}]*cloudspace="cloudspace-1",desired_version="1.31.1",current_version="1.30.4"\} 1/
+      );
+      expect(metrics).toMatch(/rackspace_spot_cloudspace_version_drift\{[^}]*cloudspace="cloudspace-1"\} 1/);
+      expect(metrics).toMatch(/rackspace_spot_cloudspace_version_drift\{[^}]*cloudspace="cloudspace-2"\} 0/);
+    });
+
+    it('should collect cloudspace creation and first ready timestamps', async () => {
+      vi.mocked(mockClient.listCloudSpaces).mockResolvedValue({
+        items: [
+          {
+            metadata: { name: 'cloudspace-1', creationTimestamp: '2024-01-01T00:00:00Z' },
+            status: { firstReadyTimestamp: '2024-01-01T00:12:30Z' },
+          },
+          {
+            metadata: { name: 'cloudspace-2', creationTimestamp: '2024-01-02T00:00:00Z' },
+            status: {},
+          },
+        ],
+      } as any);
+      vi.mocked(mockClient.listSpotNodePools).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.listOnDemandNodePools).mockResolvedValue({ items: [] } as any);
+
+      await collector.collect();
+
+      const metrics = await registry.metrics();
+
+      expect(metrics).toMatch(/rackspace_spot_cloudspace_created_timestamp_seconds\{[^}]*cloudspace="cloudspace-1"\} 1704067200/);
+      expect(metrics).toMatch(/rackspace_spot_cloudspace_created_timestamp_seconds\{[^}]*cloudspace="cloudspace-2"\} 1704153600/);
+      expect(metrics).toMatch(/rackspace_spot_cloudspace_first_ready_timestamp_seconds\{[^}]*cloudspace="cloudspace-1"\} 1704067950/);
+      expect(metrics).toMatch(/rackspace_spot_cloudspace_time_to_first_ready_seconds\{[^}]*cloudspace="cloudspace-1"\} 750/);
+      expect(metrics).not.toMatch(/rackspace_spot_cloudspace_first_ready_timestamp_seconds\{[^}]*cloudspace="cloudspace-2"/);
+      expect(metrics).not.toMatch(/rackspace_spot_cloudspace_time_to_first_ready_seconds\{[^}]*cloudspace="cloudspace-2"/);
+    });
+
+    it('should collect cloudspace condition metrics', async () => {
+      vi.mocked(mockClient.listCloudSpaces).mockResolvedValue({
+        items: [
+          {
+            metadata: { name: 'cloudspace-1' },
+            spec: { region: 'us-central-dfw-1' },
+            status: {
+              conditions: [
+                {
+                  type: 'Ready',
+                  status: 'False',
+                  reason: 'ControlPlaneUnavailable',
+                  severity: 'Error',
+                  lastTransitionTime: '2024-01-02T15:04:05Z',
+                },
+                { type: 'Synced', status: 'True', lastTransitionTime: '2024-01-01T00:00:00Z' },
+              ],
+            },
+          },
+        ],
+      } as any);
+      vi.mocked(mockClient.listSpotNodePools).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.listOnDemandNodePools).mockResolvedValue({ items: [] } as any);
+
+      await collector.collect();
+
+      const metrics = await registry.metrics();
+
+      expect(metrics).toMatch(
+        /rackspace_spot_cloudspace_condition\{[^}]*type="Ready",status="False",reason="ControlPlaneUnavailable",severity="Error"\} 1/
+      );
+      expect(metrics).toMatch(/rackspace_spot_cloudspace_condition\{[^}]*type="Ready",status="True"[^}]*\} 0/);
+      expect(metrics).toMatch(/rackspace_spot_cloudspace_condition\{[^}]*type="Ready",status="Unknown"[^}]*\} 0/);
+      expect(metrics).toMatch(/rackspace_spot_cloudspace_condition\{[^}]*type="Synced",status="True"[^}]*\} 1/);
+      expect(metrics).toMatch(
+        /rackspace_spot_cloudspace_condition_last_transition_timestamp_seconds\{[^}]*type="Ready"\} 1704207845/
+      );
+    });
+
+    it('should collect cloudspace phase, health and upgrade phase state sets', async () => {
+      vi.mocked(mockClient.listCloudSpaces).mockResolvedValue({
+        items: [
+          {
+            metadata: { name: 'cloudspace-1' },
+            spec: { region: 'us-central-dfw-1' },
+            status: {
+              phase: 'Failed',
+              health: 'Unhealthy',
+              upgradePhase: 'Rollback',
+              reason: 'NoCapacity',
+            },
+          },
+        ],
+      } as any);
+      vi.mocked(mockClient.listSpotNodePools).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.listOnDemandNodePools).mockResolvedValue({ items: [] } as any);
+
+      await collector.collect();
+
+      const metrics = await registry.metrics();
+
+      expect(metrics).toMatch(/rackspace_spot_cloudspace_phase\{[^}]*phase="Failed"\} 1/);
+      expect(metrics).toMatch(/rackspace_spot_cloudspace_phase\{[^}]*phase="Ready"\} 0/);
+      expect(metrics).toMatch(/rackspace_spot_cloudspace_health\{[^}]*health="Unhealthy"\} 1/);
+      expect(metrics).toMatch(/rackspace_spot_cloudspace_health\{[^}]*health="Healthy"\} 0/);
+      // Values outside the known list still get a series
+      expect(metrics).toMatch(/rackspace_spot_cloudspace_upgrade_phase\{[^}]*upgrade_phase="Rollback"\} 1/);
+      expect(metrics).toMatch(/rackspace_spot_cloudspace_upgrade_phase\{[^}]*upgrade_phase="InProgress"\} 0/);
+      expect(metrics).toMatch(
+        /rackspace_spot_cloudspace_phase_reason_info\{[^}]*phase="Failed",reason="NoCapacity"\} 1/
+      );
+    });
+
+    it('should collect per-server metrics from assigned servers', async () => {
+      vi.mocked(mockClient.listCloudSpaces).mockResolvedValue({
+        items: [
+          {
+            metadata: { name: 'cloudspace-1' },
+            spec: { region: 'us-central-dfw-1' },
+            status: {
+              assignedServers: {
+                'srv-1': {
+                  serverName: 'node-a',
+                  state: 'Ready',
+                  clusterRole: 'worker',
+                  serverClassName: 'gp.vs1.medium-dfw',
+                  serverType: 'spot',
+                },
+                'srv-2': {
+                  serverName: 'node-b',
+                  state: 'Ready',
+                  clusterRole: 'worker',
+                  serverClassName: 'gp.vs1.medium-dfw',
+                  serverType: 'spot',
+                },
+                'srv-3': {
+                  state: 'Provisioning',
+                  clusterRole: 'control-plane',
+                  serverClassName: 'gp.vs1.large-dfw',
+                  serverType: 'ondemand',
+                  error: 'timed out waiting for server',
+                },
+              },
+            },
+          },
+        ],
+      } as any);
+      vi.mocked(mockClient.listSpotNodePools).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.listOnDemandNodePools).mockResolvedValue({ items: [] } as any);
+
+      await collector.collect();
+
+      const metrics = await registry.metrics();
+
+      expect(metrics).toMatch(
+        /rackspace_spot_cloudspace_server_info\{[^}]*server="node-a",state="Ready",cluster_role="worker",serverclass="gp.vs1.medium-dfw",server_type="spot",has_error="false"\} 1/
+      );
+      // Falls back to the map key when serverName is missing
+      expect(metrics).toMatch(/rackspace_spot_cloudspace_server_info\{[^}]*server="srv-3"[^}]*has_error="true"\} 1/);
+      expect(metrics).toMatch(
+        /rackspace_spot_cloudspace_servers\{[^}]*state="Ready",cluster_role="worker",serverclass="gp.vs1.medium-dfw"\} 2/
+      );
+      expect(metrics).toMatch(/rackspace_spot_cloudspace_servers\{[^}]*state="Provisioning",cluster_role="control-plane"[^}]*\} 1/);
+      expect(metrics).toMatch(/rackspace_spot_cloudspace_servers_with_error\{[^}]*cloudspace="cloudspace-1"\} 1/);
+    });
+
     it('should collect spot node pool metrics', async () => {
       vi.mocked(mockClient.listCloudSpaces).mockResolvedValue({ items: [] } as any);
       vi.mocked(mockClient.listSpotNodePools).mockResolvedValue({
@@ -122,6 +370,132 @@ describe('RackspaceSpotCollector', () => {
       expect(metrics).toMatch(/rackspace_spot_spotnodepool_won_count\{[^}]+\} 3/);
     });
 
+    it('should collect spot node pool bid price and margin against the market', async () => {
+      vi.mocked(mockClient.listCloudSpaces).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.listSpotNodePools).mockResolvedValue({
+        items: [
+          {
+            metadata: { name: 'spot-pool-1' },
+            spec: {
+              cloudSpace: 'cloudspace-1',
+              serverClass: 'gp.vs1.small-dfw',
+              bidPrice: '0.008',
+              desired: 1,
+            },
+            status: { wonCount: 0, bidStatus: 'pending' },
+          },
+        ],
+      } as any);
+      vi.mocked(mockClient.listOnDemandNodePools).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.listServerClasses).mockResolvedValue({
+        items: [
+          {
+            metadata: { name: 'gp.vs1.small-dfw' },
+            spec: { region: 'us-central-dfw-1' },
+            status: {
+              spotPricing: { marketPricePerHour: '0.010', hammerPricePerHour: '0.009' },
+            },
+          },
+        ],
+      } as any);
+
+      await collector.collect();
+
+      const metrics = await registry.metrics();
+
+      expect(metrics).toMatch(/rackspace_spot_spotnodepool_bid_price\{[^}]*nodepool="spot-pool-1"[^}]*\} 0.008/);
+      // 0.008 - 0.010, allowing for floating point noise
+      expect(metrics).toMatch(/rackspace_spot_spotnodepool_bid_margin\{[^}]+\} -0.00(2|19999)/);
+      expect(metrics).toMatch(/rackspace_spot_spotnodepool_bid_margin_ratio\{[^}]+\} -0.(2|19999)/);
+    });
+
+    it('should export bid price without margin when the server class is unknown', async () => {
+      vi.mocked(mockClient.listCloudSpaces).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.listSpotNodePools).mockResolvedValue({
+        items: [
+          {
+            metadata: { name: 'spot-pool-1' },
+            spec: {
+              cloudSpace: 'cloudspace-1',
+              serverClass: 'gp.vs1.missing-dfw',
+              bidPrice: '0.008',
+              desired: 1,
+            },
+            status: { wonCount: 1, bidStatus: 'won' },
+          },
+        ],
+      } as any);
+      vi.mocked(mockClient.listOnDemandNodePools).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.listServerClasses).mockResolvedValue({ items: [] } as any);
+
+      await collector.collect();
+
+      const metrics = await registry.metrics();
+
+      expect(metrics).toMatch(/rackspace_spot_spotnodepool_bid_price\{[^}]+\} 0.008/);
+      expect(metrics).not.toMatch(/rackspace_spot_spotnodepool_bid_margin\{/);
+      expect(metrics).not.toMatch(/rackspace_spot_spotnodepool_bid_margin_ratio\{/);
+    });
+
+    it('should collect spot node pool autoscaling bounds and headroom', async () => {
+      vi.mocked(mockClient.listCloudSpaces).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.listSpotNodePools).mockResolvedValue({
+        items: [
+          {
+            metadata: { name: 'autoscaling-pool' },
+            spec: {
+              cloudSpace: 'cloudspace-1',
+              serverClass: 'gp.vs1.small-dfw',
+              autoscaling: { enabled: true, minNodes: 2, maxNodes: 4 },
+            },
+            status: { wonCount: 3, bidStatus: 'won' },
+          },
+          {
+            metadata: { name: 'fixed-pool' },
+            spec: { cloudSpace: 'cloudspace-1', serverClass: 'gp.vs1.small-dfw', desired: 2 },
+            status: { wonCount: 2, bidStatus: 'won' },
+          },
+        ],
+      } as any);
+      vi.mocked(mockClient.listOnDemandNodePools).mockResolvedValue({ items: [] } as any);
+
+      await collector.collect();
+
+      const metrics = await registry.metrics();
+
+      expect(metrics).toMatch(/rackspace_spot_spotnodepool_autoscaling_enabled\{[^}]*nodepool="autoscaling-pool"[^}]*\} 1/);
+      expect(metrics).toMatch(/rackspace_spot_spotnodepool_autoscaling_enabled\{[^}]*nodepool="fixed-pool"[^}]*\} 0/);
+      expect(metrics).toMatch(/rackspace_spot_spotnodepool_autoscaling_min_nodes\{[^}]*nodepool="autoscaling-pool"[^}]*\} 2/);
+      expect(metrics).toMatch(/rackspace_spot_spotnodepool_autoscaling_max_nodes\{[^}]*nodepool="autoscaling-pool"[^}]*\} 4/);
+      expect(metrics).toMatch(/rackspace_spot_spotnodepool_autoscaling_headroom_ratio\{[^}]*nodepool="autoscaling-pool"[^}]*\} 0.25/);
+      expect(metrics).not.toMatch(/rackspace_spot_spotnodepool_autoscaling_max_nodes\{[^}]*nodepool="fixed-pool"/);
+      expect(metrics).not.toMatch(/rackspace_spot_spotnodepool_autoscaling_headroom_ratio\{[^}]*nodepool="fixed-pool"/);
+    });
+
+    it('should report no headroom when more nodes are won than the autoscaling maximum', async () => {
+      vi.mocked(mockClient.listCloudSpaces).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.listSpotNodePools).mockResolvedValue({
+        items: [
+          {
+            metadata: { name: 'shrinking-pool' },
+            spec: {
+              cloudSpace: 'cloudspace-1',
+              serverClass: 'gp.vs1.small-dfw',
+              autoscaling: { enabled: true, minNodes: 1, maxNodes: 2 },
+            },
+            status: { wonCount: 3, bidStatus: 'won' },
+          },
+        ],
+      } as any);
+      vi.mocked(mockClient.listOnDemandNodePools).mockResolvedValue({ items: [] } as any);
+
+      await collector.collect();
+
+      const metrics = await registry.metrics();
+
+      expect(metrics).toMatch(/rackspace_spot_spotnodepool_autoscaling_headroom_ratio\{[^}]*nodepool="shrinking-pool"[^}]*\} 0\n/);
+    });
+
     it('should collect on-demand node pool metrics', async () => {
       vi.mocked(mockClient.listCloudSpaces).mockResolvedValue({ items: [] } as any);
       vi.mocked(mockClient.listSpotNodePools).mockResolvedValue({ items: [] } as any);
@@ -157,70 +531,1063 @@ describe('RackspaceSpotCollector', () => {
       expect(metrics).toMatch(/rackspace_spot_ondemandnodepool_reserved_count\{[^}]+\} 2/);
     });
 
-    it('should handle empty responses', async () => {
+    it('should compute fulfilment ratio and shortfall for both pool types', async () => {
       vi.mocked(mockClient.listCloudSpaces).mockResolvedValue({ items: [] } as any);
-      vi.mocked(mockClient.listSpotNodePools).mockResolvedValue({ items: [] } as any);
-      vi.mocked(mockClient.listOnDemandNodePools).mockResolvedValue({ items: [] } as any);
-
-      await expect(collector.collect()).resolves.not.toThrow();
-    });
-
-    it('should handle null/undefined items', async () => {
-      vi.mocked(mockClient.listCloudSpaces).mockResolvedValue({} as any);
-      vi.mocked(mockClient.listSpotNodePools).mockResolvedValue(null as any);
-      vi.mocked(mockClient.listOnDemandNodePools).mockResolvedValue(undefined as any);
+      vi.mocked(mockClient.listSpotNodePools).mockResolvedValue({
+        items: [
+          {
+            metadata: { name: 'spot-pool-1' },
+            spec: { cloudSpace: 'cloudspace-1', serverClass: 'gp.vs1.small-dfw', desired: 4 },
+            status: { wonCount: 1, bidStatus: 'won' },
+          },
+          {
+            metadata: { name: 'spot-pool-empty' },
+            spec: { cloudSpace: 'cloudspace-1', serverClass: 'gp.vs1.small-dfw', desired: 0 },
+            status: { bidStatus: 'won' },
+          },
+        ],
+      } as any);
+      vi.mocked(mockClient.listOnDemandNodePools).mockResolvedValue({
+        items: [
+          {
+            metadata: { name: 'ondemand-pool-1' },
+            spec: { cloudSpace: 'cloudspace-1', serverClass: 'gp.vs1.medium-dfw', desired: 2 },
+            status: { reservedCount: 2, reservedStatus: 'Reserved' },
+          },
+        ],
+      } as any);
 
-      await expect(collector.collect()).resolves.not.toThrow();
-    });
+      await collector.collect();
 
-    it('should handle API errors', async () => {
-      vi.mocked(mockClient.listCloudSpaces).mockRejectedValue(new Error('API Error'));
-      vi.mocked(mockClient.listSpotNodePools).mockResolvedValue({ items: [] } as any);
-      vi.mocked(mockClient.listOnDemandNodePools).mockResolvedValue({ items: [] } as any);
+      const metrics = await registry.metrics();
 
-      await expect(collector.collect()).rejects.toThrow('API Error');
+      expect(metrics).toMatch(/rackspace_spot_nodepool_fulfilment_ratio\{[^}]*nodepool="spot-pool-1",[^}]*pool_type="spot"\} 0.25/);
+      expect(metrics).toMatch(/rackspace_spot_nodepool_shortfall\{[^}]*nodepool="spot-pool-1",[^}]*pool_type="spot"\} 3/);
+      expect(metrics).toMatch(/rackspace_spot_nodepool_fulfilment_ratio\{[^}]*nodepool="spot-pool-empty",[^}]*\} 1/);
+      expect(metrics).toMatch(/rackspace_spot_nodepool_shortfall\{[^}]*nodepool="spot-pool-empty",[^}]*\} 0/);
+      expect(metrics).toMatch(
+        /rackspace_spot_nodepool_fulfilment_ratio\{[^}]*nodepool="ondemand-pool-1",[^}]*pool_type="ondemand"\} 1/
+      );
+      expect(metrics).toMatch(/rackspace_spot_nodepool_shortfall\{[^}]*nodepool="ondemand-pool-1",[^}]*pool_type="ondemand"\} 0/);
     });
 
-    it('should use default values for missing fields', async () => {
-      vi.mocked(mockClient.listCloudSpaces).mockResolvedValue({
+    it('should compare requested and applied custom metadata for both pool types', async () => {
+      vi.mocked(mockClient.listCloudSpaces).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.listSpotNodePools).mockResolvedValue({
         items: [
           {
-            metadata: {},
-            spec: {},
-            status: {},
+            metadata: { name: 'spot-pool-1' },
+            spec: {
+              cloudSpace: 'cloudspace-1',
+              customLabels: { team: 'platform', tier: 'batch' },
+              customAnnotations: { 'example.com/owner': 'alice' },
+              customTaints: [{ key: 'dedicated', value: 'batch', effect: 'NoSchedule' }],
+            },
+            status: {
+              bidStatus: 'won',
+              customMetadataStatus: { labels: ['team', 'stale'], annotations: ['example.com/owner'] },
+            },
           },
         ],
       } as any);
-      vi.mocked(mockClient.listSpotNodePools).mockResolvedValue({
+      vi.mocked(mockClient.listOnDemandNodePools).mockResolvedValue({
         items: [
           {
-            metadata: {},
-            spec: {},
+            metadata: { name: 'ondemand-pool-1' },
+            spec: { cloudSpace: 'cloudspace-1' },
             status: {},
           },
         ],
       } as any);
-      vi.mocked(mockClient.listOnDemandNodePools).mockResolvedValue({
+
+      await collector.collect();
+
+      const metrics = await registry.metrics();
+
+      expect(metrics).toMatch(
+        /rackspace_spot_nodepool_custom_metadata_requested\{[^}]*nodepool="spot-pool-1",pool_type="spot",metadata_type="label"\} 2/
+      );
+      // "stale" was not requested, so only "team" counts as applied
+      expect(metrics).toMatch(
+        /rackspace_spot_nodepool_custom_metadata_applied\{[^}]*nodepool="spot-pool-1",pool_type="spot",metadata_type="label"\} 1/
+      );
+      expect(metrics).toMatch(
+        /rackspace_spot_nodepool_custom_metadata_applied\{[^}]*nodepool="spot-pool-1",pool_type="spot",metadata_type="annotation"\} 1/
+      );
+      expect(metrics).toMatch(
+        /rackspace_spot_nodepool_custom_metadata_requested\{[^}]*nodepool="spot-pool-1",pool_type="spot",metadata_type="taint"\} 1/
+      );
+      expect(metrics).toMatch(
+        /rackspace_spot_nodepool_custom_metadata_applied\{[^}]*nodepool="spot-pool-1",pool_type="spot",metadata_type="taint"\} 0/
+      );
+      expect(metrics).toMatch(
+        /rackspace_spot_nodepool_custom_metadata_requested\{[^}]*nodepool="ondemand-pool-1",pool_type="ondemand",metadata_type="label"\} 0/
+      );
+      // Without an allow-list no pool label series are exported
+      expect(metrics).not.toMatch(/rackspace_spot_nodepool_labels\{/);
+    });
+
+    it('should expose allow-listed node pool labels as Prometheus labels', async () => {
+      const labelRegistry = new Registry();
+      const labelCollector = new RackspaceSpotCollector(mockClient, 'org-test', labelRegistry, {
+        nodePoolLabels: ['team', 'example.com/cost-center'],
+      });
+      vi.mocked(mockClient.listCloudSpaces).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.listSpotNodePools).mockResolvedValue({
         items: [
           {
-            metadata: {},
-            spec: {},
-            status: {},
+            metadata: { name: 'spot-pool-1' },
+            spec: { cloudSpace: 'cloudspace-1', customLabels: { team: 'platform', other: 'ignored' } },
+            status: { bidStatus: 'won' },
           },
         ],
       } as any);
+      vi.mocked(mockClient.listOnDemandNodePools).mockResolvedValue({ items: [] } as any);
 
-      await collector.collect();
+      await labelCollector.collect();
 
-      const metrics = await registry.metrics();
+      const metrics = await labelRegistry.metrics();
 
-      // Should have 'unknown' for missing values
-      expect(metrics).toContain('cloudspace="unknown"');
-      expect(metrics).toContain('nodepool="unknown"');
+      expect(metrics).toMatch(
+        /rackspace_spot_nodepool_labels\{[^}]*nodepool="spot-pool-1",pool_type="spot",label_team="platform",label_example_com_cost_center=""\} 1/
+      );
+      expect(metrics).not.toContain('label_other');
+    });
+
+    it('should reject node pool labels that collide after sanitisation', () => {
+      expect(
+        () =>
+          new RackspaceSpotCollector(mockClient, 'org-test', new Registry(), {
+            nodePoolLabels: ['cost-center', 'cost.center'],
+          })
+      ).toThrow('Duplicate node pool label: label_cost_center');
+    });
+
+    it('should collect region info metrics', async () => {
+      vi.mocked(mockClient.listCloudSpaces).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.listSpotNodePools).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.listOnDemandNodePools).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.listRegions).mockResolvedValue({
+        items: [
+          {
+            metadata: { name: 'us-central-dfw-1' },
+            spec: {
+              country: 'USA',
+              description: 'Dallas, Texas',
+              provider: { providerType: 'ospc', providerRegionName: 'DFW3' },
+            },
+          },
+          { metadata: { name: 'uk-lon-1' } },
+        ],
+      } as any);
+
+      await collector.collect();
+
+      const metrics = await registry.metrics();
+
+      expect(metrics).toContain(
+        'rackspace_spot_region_info{region="us-central-dfw-1",country="USA",description="Dallas, Texas",provider_type="ospc",provider_region_name="DFW3"} 1'
+      );
+      expect(metrics).toContain(
+        'rackspace_spot_region_info{region="uk-lon-1",country="unknown",description="",provider_type="unknown",provider_region_name="unknown"} 1'
+      );
+    });
+
+    it('should collect server class pricing metrics', async () => {
+      vi.mocked(mockClient.listCloudSpaces).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.listSpotNodePools).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.listOnDemandNodePools).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.listServerClasses).mockResolvedValue({
+        items: [
+          {
+            metadata: { name: 'gp.vs1.medium-dfw' },
+            spec: {
+              region: 'us-central-dfw-1',
+              category: 'General Purpose',
+              flavorType: 'Virtual Server',
+            },
+            status: {
+              spotPricing: {
+                marketPricePerHour: '0.0125',
+                hammerPricePerHour: '$0.011',
+              },
+            },
+          },
+        ],
+      } as any);
+
+      await collector.collect();
+
+      const metrics = await registry.metrics();
+
+      expect(metrics).toContain('serverclass="gp.vs1.medium-dfw"');
+      expect(metrics).toContain('region="us-central-dfw-1"');
+      expect(metrics).toContain('category="General Purpose"');
+      expect(metrics).toContain('flavor_type="Virtual Server"');
+      expect(metrics).toMatch(/rackspace_spot_serverclass_market_price_per_hour\{[^}]+\} 0.0125/);
+      expect(metrics).toMatch(/rackspace_spot_serverclass_hammer_price_per_hour\{[^}]+\} 0.011/);
+    });
+
+    it('should collect server class capacity and availability metrics', async () => {
+      vi.mocked(mockClient.listCloudSpaces).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.listSpotNodePools).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.listOnDemandNodePools).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.listServerClasses).mockResolvedValue({
+        items: [
+          {
+            metadata: { name: 'gp.vs1.small-dfw' },
+            spec: { region: 'us-central-dfw-1', availability: 'deprecated' },
+            status: {
+              available: 4,
+              capacity: 120,
+              reserved: 116,
+              lastAuction: 1735689600,
+            },
+          },
+        ],
+      } as any);
+
+      await collector.collect();
+
+      const metrics = await registry.metrics();
+
+      expect(metrics).toMatch(/rackspace_spot_serverclass_available\{[^}]+\} 4/);
+      expect(metrics).toMatch(/rackspace_spot_serverclass_capacity\{[^}]+\} 120/);
+      expect(metrics).toMatch(/rackspace_spot_serverclass_reserved\{[^}]+\} 116/);
+      expect(metrics).toMatch(/rackspace_spot_serverclass_last_auction\{[^}]+\} 1735689600/);
+      expect(metrics).toMatch(/rackspace_spot_serverclass_availability_info\{[^}]*availability="deprecated"[^}]*\} 1/);
+      expect(metrics).toMatch(/rackspace_spot_serverclass_deprecated\{[^}]+\} 1/);
+    });
+
+    it('should collect server class price percentiles', async () => {
+      vi.mocked(mockClient.listCloudSpaces).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.listSpotNodePools).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.listOnDemandNodePools).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.listServerClasses).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.getPercentiles).mockResolvedValue({
+        regions: {
+          'us-central-dfw-1': {
+            generation: 'gen2',
+            serverclasses: {
+              'gp.vs1.medium-dfw': {
+                category: 'General Purpose',
+                market_price: '$0.01',
+                '20_percentile': 0.002,
+                '50_percentile': 0.005,
+                '80_percentile': 0.009,
+              },
+            },
+          },
+        },
+      });
+
+      await collector.collect();
+
+      const metrics = await registry.metrics();
+
+      expect(metrics).toContain(
+        'rackspace_spot_serverclass_price_percentile{percentile="20",region="us-central-dfw-1",serverclass="gp.vs1.medium-dfw",category="General Purpose"} 0.002'
+      );
+      expect(metrics).toMatch(/rackspace_spot_serverclass_price_percentile\{percentile="50"[^}]+\} 0.005/);
+      expect(metrics).toMatch(/rackspace_spot_serverclass_price_percentile\{percentile="80"[^}]+\} 0.009/);
+    });
+
+    it('should collect hyperscaler comparable prices', async () => {
+      vi.mocked(mockClient.listCloudSpaces).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.listSpotNodePools).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.listOnDemandNodePools).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.listServerClasses).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.getComparablePrices).mockResolvedValue({
+        regions: {
+          'us-central-dfw-1': {
+            'gp.vs1.medium-dfw': {
+              hyperscaler_average_price: '$0.0905',
+              comparables: [
+                { cloud: 'AWS', class: 't3.large', price: '$0.0832' },
+                { cloud: 'Azure', class: 'B2ms', price: '$0.0978' },
+                { cloud: 'GCP', class: 'e2-standard-2', price: 'N/A' },
+              ],
+            },
+          },
+        },
+      });
+
+      await collector.collect();
+
+      const metrics = await registry.metrics();
+
+      expect(metrics).toContain(
+        'rackspace_spot_serverclass_hyperscaler_average_price{region="us-central-dfw-1",serverclass="gp.vs1.medium-dfw"} 0.0905'
+      );
+      expect(metrics).toContain(
+        'rackspace_spot_serverclass_comparable_price{region="us-central-dfw-1",serverclass="gp.vs1.medium-dfw",cloud="AWS",comparable_class="t3.large"} 0.0832'
+      );
+      expect(metrics).toMatch(/rackspace_spot_serverclass_comparable_price\{[^}]*cloud="Azure"[^}]*\} 0.0978/);
+      // Unparseable prices are skipped rather than exported as NaN
+      expect(metrics).not.toContain('cloud="GCP"');
+    });
+
+    it('should skip server class prices that cannot be parsed', async () => {
+      vi.mocked(mockClient.listCloudSpaces).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.listSpotNodePools).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.listOnDemandNodePools).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.listServerClasses).mockResolvedValue({
+        items: [
+          {
+            metadata: { name: 'gp.vs1.medium-dfw' },
+            spec: { region: 'us-central-dfw-1' },
+            status: {
+              spotPricing: {
+                marketPricePerHour: 'n/a',
+                hammerPricePerHour: '',
+              },
+            },
+          },
+        ],
+      } as any);
+
+      await collector.collect();
+
+      const metrics = await registry.metrics();
+
+      expect(metrics).not.toMatch(/rackspace_spot_serverclass_market_price_per_hour\{/);
+      expect(metrics).not.toMatch(/rackspace_spot_serverclass_hammer_price_per_hour\{/);
+    });
+
+    it('should estimate node pool costs and roll them up', async () => {
+      vi.mocked(mockClient.listCloudSpaces).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.listSpotNodePools).mockResolvedValue({
+        items: [
+          {
+            metadata: { name: 'spot-pool-1' },
+            spec: { cloudSpace: 'cloudspace-1', serverClass: 'gp.vs1.small-dfw', desired: 4 },
+            status: { wonCount: 4, bidStatus: 'won' },
+          },
+        ],
+      } as any);
+      vi.mocked(mockClient.listOnDemandNodePools).mockResolvedValue({
+        items: [
+          {
+            metadata: { name: 'ondemand-pool-1' },
+            spec: { cloudSpace: 'cloudspace-1', serverClass: 'gp.vs1.medium-dfw', desired: 2 },
+            status: { reservedCount: 2, reservedStatus: 'reserved' },
+          },
+          {
+            metadata: { name: 'ondemand-pool-2' },
+            spec: { cloudSpace: 'cloudspace-2', serverClass: 'gp.vs1.medium-dfw', desired: 1 },
+            status: { reservedCount: 1, reservedStatus: 'reserved' },
+          },
+        ],
+      } as any);
+      vi.mocked(mockClient.listServerClasses).mockResolvedValue({
+        items: [
+          {
+            metadata: { name: 'gp.vs1.small-dfw' },
+            spec: { region: 'us-central-dfw-1' },
+            status: { spotPricing: { marketPricePerHour: '0.5', hammerPricePerHour: '0.25' } },
+          },
+          {
+            metadata: { name: 'gp.vs1.medium-dfw' },
+            // Cost is quoted per 30 minutes, i.e. 1.5 per hour
+            spec: { region: 'us-central-dfw-1', onDemandPricing: { cost: '0.75', interval: '30m' } },
+          },
+        ],
+      } as any);
+
+      await collector.collect();
+
+      const metrics = await registry.metrics();
+
+      expect(metrics).toMatch(
+        /rackspace_spot_nodepool_estimated_cost_per_hour\{[^}]*nodepool="spot-pool-1"[^}]*pool_type="spot"\} 1/
+      );
+      expect(metrics).toMatch(
+        /rackspace_spot_nodepool_estimated_cost_per_hour\{[^}]*nodepool="ondemand-pool-1"[^}]*pool_type="ondemand"\} 3/
+      );
+      expect(metrics).toMatch(
+        /rackspace_spot_nodepool_estimated_cost_per_month\{[^}]*nodepool="spot-pool-1"[^}]*\} 730/
+      );
+      expect(metrics).toMatch(
+        /rackspace_spot_cloudspace_estimated_cost_per_hour\{[^}]*cloudspace="cloudspace-1"\} 4/
+      );
+      expect(metrics).toMatch(
+        /rackspace_spot_cloudspace_estimated_cost_per_hour\{[^}]*cloudspace="cloudspace-2"\} 1.5/
+      );
+      expect(metrics).toMatch(/rackspace_spot_organization_estimated_cost_per_hour\{namespace="org-test"[^}]*\} 5.5/);
+      expect(metrics).toMatch(/rackspace_spot_organization_estimated_cost_per_month\{namespace="org-test"[^}]*\} 4015/);
+    });
+
+    it('should count node pools left out of costs because they have no price', async () => {
+      vi.mocked(mockClient.listCloudSpaces).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.listSpotNodePools).mockResolvedValue({
+        items: [
+          {
+            metadata: { name: 'spot-pool-1' },
+            spec: { cloudSpace: 'cloudspace-1', serverClass: 'gp.vs1.small-dfw', desired: 2 },
+            status: { wonCount: 2 },
+          },
+          {
+            metadata: { name: 'spot-pool-2' },
+            spec: { cloudSpace: 'cloudspace-1', serverClass: 'gp.vs1.retired-dfw', desired: 1 },
+            status: { wonCount: 1 },
+          },
+        ],
+      } as any);
+      vi.mocked(mockClient.listOnDemandNodePools).mockResolvedValue({
+        items: [
+          {
+            metadata: { name: 'ondemand-pool-1' },
+            spec: { cloudSpace: 'cloudspace-2', serverClass: 'gp.vs1.small-dfw', desired: 1 },
+            status: { reservedCount: 1 },
+          },
+        ],
+      } as any);
+      vi.mocked(mockClient.listServerClasses).mockResolvedValue({
+        items: [
+          {
+            metadata: { name: 'gp.vs1.small-dfw' },
+            spec: { region: 'us-central-dfw-1', onDemandPricing: { cost: 'n/a' } },
+            status: { spotPricing: { hammerPricePerHour: '0.25' } },
+          },
+        ],
+      } as any);
+
+      await collector.collect();
+
+      const metrics = await registry.metrics();
+
+      expect(metrics).toMatch(/rackspace_spot_cloudspace_unpriced_nodepools\{[^}]*cloudspace="cloudspace-1"\} 1/);
+      expect(metrics).toMatch(/rackspace_spot_cloudspace_unpriced_nodepools\{[^}]*cloudspace="cloudspace-2"\} 1/);
+      expect(metrics).toMatch(/rackspace_spot_cloudspace_estimated_cost_per_hour\{[^}]*cloudspace="cloudspace-1"\} 0.5/);
+      expect(metrics).toMatch(/rackspace_spot_cloudspace_estimated_cost_per_hour\{[^}]*cloudspace="cloudspace-2"\} 0/);
+      expect(metrics).not.toMatch(/rackspace_spot_nodepool_estimated_cost_per_hour\{[^}]*nodepool="spot-pool-2"/);
+    });
+
+    it('should collect price history for server classes used by node pools', async () => {
+      const now = Math.floor(Date.now() / 1000);
+
+      vi.mocked(mockClient.listCloudSpaces).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.listSpotNodePools).mockResolvedValue({
+        items: [
+          { metadata: { name: 'spot-pool-1' }, spec: { cloudSpace: 'cs-1', serverClass: 'gp.vs1.small-dfw' } },
+          { metadata: { name: 'spot-pool-2' }, spec: { cloudSpace: 'cs-1', serverClass: 'gp.vs1.small-dfw' } },
+        ],
+      } as any);
+      vi.mocked(mockClient.listOnDemandNodePools).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.listServerClasses).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.getPriceHistory).mockResolvedValue({
+        auction: 'gp.vs1.small-dfw',
+        history: [
+          { run_at: now - 2 * 86400, hammer_price: 0.9 },
+          { run_at: now - 7200, hammer_price: 0.3 },
+          { run_at: now - 600, hammer_price: 0.2 },
+          { run_at: now - 300, hammer_price: 0.4 },
+        ],
+      });
+
+      await collector.collect();
+
+      const metrics = await registry.metrics();
+
+      // Each server class is only fetched once, however many pools use it
+      expect(mockClient.getPriceHistory).toHaveBeenCalledTimes(1);
+      expect(mockClient.getPriceHistory).toHaveBeenCalledWith('gp.vs1.small-dfw');
+
+      expect(metrics).toMatch(/rackspace_spot_serverclass_history_latest_hammer_price\{serverclass="gp.vs1.small-dfw"\} 0.4/);
+      expect(metrics).toContain(
+        `rackspace_spot_serverclass_history_latest_auction_timestamp_seconds{serverclass="gp.vs1.small-dfw"} ${now - 300}`
+      );
+      expect(metrics).toMatch(/rackspace_spot_serverclass_history_hammer_price_min\{[^}]*window="1h"\} 0.2/);
+      expect(metrics).toMatch(/rackspace_spot_serverclass_history_hammer_price_max\{[^}]*window="1h"\} 0.4/);
+      expect(metrics).toMatch(/rackspace_spot_serverclass_history_hammer_price_avg\{[^}]*window="1h"\} 0.3/);
+      expect(metrics).toMatch(/rackspace_spot_serverclass_history_hammer_price_max\{[^}]*window="24h"\} 0.4/);
+      expect(metrics).toMatch(/rackspace_spot_serverclass_history_hammer_price_max\{[^}]*window="168h"\} 0.9/);
+    });
+
+    it('should collect price history for configured server classes and windows', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      // Use a separate registry to avoid duplicate metric names
+      const configuredRegistry = new Registry();
+      const configuredCollector = new RackspaceSpotCollector(mockClient, 'org-test', configuredRegistry, {
+        priceHistoryServerClasses: ['mh.vs1.large-lon'],
+        priceHistoryWindows: ['30m'],
+      });
+
+      vi.mocked(mockClient.listCloudSpaces).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.listSpotNodePools).mockResolvedValue({
+        items: [{ metadata: { name: 'spot-pool-1' }, spec: { serverClass: 'gp.vs1.small-dfw' } }],
+      } as any);
+      vi.mocked(mockClient.listOnDemandNodePools).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.listServerClasses).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.getPriceHistory).mockResolvedValue({
+        auction: 'mh.vs1.large-lon',
+        history: [{ run_at: now - 60, hammer_price: 0.05 }],
+      });
+
+      await configuredCollector.collect();
+
+      const metrics = await configuredRegistry.metrics();
+
+      expect(mockClient.getPriceHistory).toHaveBeenCalledTimes(1);
+      expect(mockClient.getPriceHistory).toHaveBeenCalledWith('mh.vs1.large-lon');
+      expect(metrics).toMatch(/rackspace_spot_serverclass_history_hammer_price_avg\{[^}]*window="30m"\} 0.05/);
+    });
+
+    it('should keep previous price history, marked stale, for server classes that fail', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const configuredRegistry = new Registry();
+      const configuredCollector = new RackspaceSpotCollector(mockClient, 'org-test', configuredRegistry, {
+        priceHistoryServerClasses: ['mh.vs1.large-lon', 'gp.vs1.medium-dfw'],
+      });
+
+      vi.mocked(mockClient.listCloudSpaces).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.listSpotNodePools).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.listOnDemandNodePools).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.getPriceHistory).mockImplementation(async (serverClass: string) => ({
+        auction: serverClass,
+        history: [{ run_at: now - 60, hammer_price: serverClass === 'gp.vs1.medium-dfw' ? 0.07 : 0.05 }],
+      }));
+      await configuredCollector.collect();
+
+      vi.mocked(mockClient.getPriceHistory).mockImplementation(async (serverClass: string) => {
+        if (serverClass === 'gp.vs1.medium-dfw') {
+          throw new Error('Failed to get price history for gp.vs1.medium-dfw: 404');
+        }
+        return { auction: serverClass, history: [{ run_at: now - 30, hammer_price: 0.06 }] };
+      });
+      const result = await configuredCollector.collect();
+
+      expect(result.succeeded).toContain('price_history');
+      const metrics = await configuredRegistry.metrics();
+      expect(metrics).toContain('rackspace_spot_serverclass_history_latest_hammer_price{serverclass="mh.vs1.large-lon"} 0.06');
+      expect(metrics).toContain('rackspace_spot_serverclass_history_latest_hammer_price{serverclass="gp.vs1.medium-dfw"} 0.07');
+      expect(metrics).toContain('rackspace_spot_serverclass_history_stale{serverclass="mh.vs1.large-lon"} 0');
+      expect(metrics).toContain('rackspace_spot_serverclass_history_stale{serverclass="gp.vs1.medium-dfw"} 1');
+    });
+
+    it('should remove price history for server classes no longer in use', async () => {
+      const now = Math.floor(Date.now() / 1000);
+
+      vi.mocked(mockClient.listCloudSpaces).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.listOnDemandNodePools).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.getPriceHistory).mockImplementation(async (serverClass: string) => ({
+        auction: serverClass,
+        history: [{ run_at: now - 60, hammer_price: 0.05 }],
+      }));
+      vi.mocked(mockClient.listSpotNodePools).mockResolvedValue({
+        items: [{ metadata: { name: 'spot-pool-1' }, spec: { serverClass: 'gp.vs1.small-dfw' } }],
+      } as any);
+      await collector.collect();
+
+      vi.mocked(mockClient.listSpotNodePools).mockResolvedValue({
+        items: [{ metadata: { name: 'spot-pool-1' }, spec: { serverClass: 'gp.vs1.medium-dfw' } }],
+      } as any);
+      await collector.collect();
+
+      const metrics = await registry.metrics();
+      expect(metrics).toContain('rackspace_spot_serverclass_history_latest_hammer_price{serverclass="gp.vs1.medium-dfw"} 0.05');
+      expect(metrics).not.toMatch(/rackspace_spot_serverclass_history_[a-z_]+\{serverclass="gp.vs1.small-dfw"/);
+    });
+
+    it('should fail price history only when every server class fails', async () => {
+      const configuredCollector = new RackspaceSpotCollector(mockClient, 'org-test', new Registry(), {
+        priceHistoryServerClasses: ['mh.vs1.large-lon', 'gp.vs1.medium-dfw'],
+      });
+
+      vi.mocked(mockClient.listCloudSpaces).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.listSpotNodePools).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.listOnDemandNodePools).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.getPriceHistory).mockRejectedValue(new Error('timed out'));
+
+      const result = await configuredCollector.collect();
+
+      expect(result.failed).toEqual([
+        {
+          section: 'price_history',
+          error: new Error('Failed to fetch price history for every server class: mh.vs1.large-lon, gp.vs1.medium-dfw'),
+        },
+      ]);
+    });
+
+    it('should reject invalid price history windows', () => {
+      expect(
+        () => new RackspaceSpotCollector(mockClient, 'org-test', new Registry(), { priceHistoryWindows: ['1d'] })
+      ).toThrow('Invalid price history window: 1d');
+    });
+
+    it('should handle empty responses', async () => {
+      vi.mocked(mockClient.listCloudSpaces).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.listSpotNodePools).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.listOnDemandNodePools).mockResolvedValue({ items: [] } as any);
+
+      await expect(collector.collect()).resolves.not.toThrow();
+    });
+
+    it('should handle null/undefined items', async () => {
+      vi.mocked(mockClient.listCloudSpaces).mockResolvedValue({} as any);
+      vi.mocked(mockClient.listSpotNodePools).mockResolvedValue(null as any);
+      vi.mocked(mockClient.listOnDemandNodePools).mockResolvedValue(undefined as any);
+
+      await expect(collector.collect()).resolves.not.toThrow();
+    });
+
+    it('should report failed sections without failing the whole collection', async () => {
+      vi.mocked(mockClient.listCloudSpaces).mockRejectedValue(new Error('API Error'));
+      vi.mocked(mockClient.listSpotNodePools).mockResolvedValue({
+        items: [{ metadata: { name: 'spot-pool-1' }, spec: { cloudSpace: 'cloudspace-1', desired: 1 }, status: {} }],
+      } as any);
+      vi.mocked(mockClient.listOnDemandNodePools).mockResolvedValue({ items: [] } as any);
+
+      const result = await collector.collect();
+
+      expect(result.failed).toEqual([{ section: 'cloudspaces', error: new Error('API Error') }]);
+      expect(result.succeeded).toContain('spot_nodepools');
+      expect(result.succeeded).toContain('costs');
+
+      const metrics = await registry.metrics();
+      expect(metrics).toMatch(/rackspace_spot_spotnodepool_desired\{[^}]*nodepool="spot-pool-1"[^}]*\} 1/);
+      expect(metrics).toContain('rackspace_spot_collection_section_stale{section="cloudspaces"} 1');
+      expect(metrics).toContain('rackspace_spot_collection_section_stale{section="spot_nodepools"} 0');
+      expect(metrics).toMatch(/rackspace_spot_collection_section_last_success_timestamp_seconds\{section="spot_nodepools"\} \d+/);
+      expect(metrics).not.toMatch(/rackspace_spot_collection_section_last_success_timestamp_seconds\{section="cloudspaces"\}/);
+    });
+
+    it('should track the last success and error of each section', async () => {
+      vi.mocked(mockClient.listCloudSpaces).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.listSpotNodePools).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.listOnDemandNodePools).mockResolvedValue({ items: [] } as any);
+
+      expect(collector.getSectionStatus().cloudspaces).toEqual({});
+
+      await collector.collect();
+      vi.mocked(mockClient.listCloudSpaces).mockRejectedValue(new Error('API Error'));
+      await collector.collect();
+
+      const status = collector.getSectionStatus();
+      expect(status.cloudspaces).toEqual({
+        lastSuccessAt: expect.any(Number),
+        lastErrorAt: expect.any(Number),
+        lastError: 'API Error',
+      });
+      expect(status.spot_nodepools).toEqual({ lastSuccessAt: expect.any(Number) });
+    });
+
+    it('should redact credentials from section errors', async () => {
+      const logger = new Logger({ write: () => {} });
+      logger.setSecret('refresh_token', 'secret-refresh-token');
+      const redactingCollector = new RackspaceSpotCollector(mockClient, 'org-test', new Registry(), { logger });
+
+      vi.mocked(mockClient.listCloudSpaces).mockRejectedValue(
+        new Error('Failed to authenticate: 400 - {"refresh_token":"secret-refresh-token"}')
+      );
+      vi.mocked(mockClient.listSpotNodePools).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.listOnDemandNodePools).mockResolvedValue({ items: [] } as any);
+
+      await redactingCollector.collect();
+
+      expect(redactingCollector.getSectionStatus().cloudspaces.lastError).toBe(
+        'Failed to authenticate: 400 - {"refresh_token":"[REDACTED]"}'
+      );
+    });
+
+    it('should fail every section that depends on failed node pools', async () => {
+      vi.mocked(mockClient.listCloudSpaces).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.listSpotNodePools).mockRejectedValue(new Error('API Error'));
+      vi.mocked(mockClient.listOnDemandNodePools).mockResolvedValue({ items: [] } as any);
+
+      const result = await collector.collect();
+
+      expect(result.failed.map(({ section }) => section).sort()).toEqual([
+        'costs',
+        'nodepool_fulfilment',
+        'nodepool_metadata',
+        'price_history',
+        'spot_bid_margins',
+        'spot_nodepools',
+      ]);
+      expect(result.succeeded).toContain('cloudspaces');
+      expect(result.succeeded).toContain('ondemand_nodepools');
+    });
+
+    it('should keep node pool counts current when server classes fail', async () => {
+      vi.mocked(mockClient.listCloudSpaces).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.listServerClasses).mockRejectedValue(new Error('API Error'));
+      vi.mocked(mockClient.listSpotNodePools).mockResolvedValue({
+        items: [
+          {
+            metadata: { name: 'spot-pool-1' },
+            spec: { cloudSpace: 'cloudspace-1', serverClass: 'gp.vs1.medium-dfw', desired: 3, bidPrice: '0.05' },
+            status: { wonCount: 2 },
+          },
+        ],
+      } as any);
+      vi.mocked(mockClient.listOnDemandNodePools).mockResolvedValue({
+        items: [
+          {
+            metadata: { name: 'ondemand-pool-1' },
+            spec: { cloudSpace: 'cloudspace-1', serverClass: 'gp.vs1.medium-dfw', desired: 1 },
+            status: { reservedCount: 1 },
+          },
+        ],
+      } as any);
+
+      const result = await collector.collect();
+
+      expect(result.failed.map(({ section }) => section).sort()).toEqual(['costs', 'serverclasses', 'spot_bid_margins']);
+      expect(result.succeeded).toContain('spot_nodepools');
+      expect(result.succeeded).toContain('ondemand_nodepools');
+
+      const metrics = await registry.metrics();
+      expect(metrics).toMatch(/rackspace_spot_spotnodepool_desired\{[^}]*nodepool="spot-pool-1"[^}]*\} 3/);
+      expect(metrics).toMatch(/rackspace_spot_spotnodepool_won_count\{[^}]*nodepool="spot-pool-1"[^}]*\} 2/);
+      expect(metrics).toMatch(/rackspace_spot_spotnodepool_bid_price\{[^}]*nodepool="spot-pool-1"[^}]*\} 0.05/);
+      expect(metrics).toMatch(/rackspace_spot_ondemandnodepool_reserved_count\{[^}]*nodepool="ondemand-pool-1"[^}]*\} 1/);
+    });
+
+    it('should use default values for missing fields', async () => {
+      vi.mocked(mockClient.listCloudSpaces).mockResolvedValue({
+        items: [
+          {
+            metadata: {},
+            spec: {},
+            status: {},
+          },
+        ],
+      } as any);
+      vi.mocked(mockClient.listSpotNodePools).mockResolvedValue({
+        items: [
+          {
+            metadata: {},
+            spec: {},
+            status: {},
+          },
+        ],
+      } as any);
+      vi.mocked(mockClient.listOnDemandNodePools).mockResolvedValue({
+        items: [
+          {
+            metadata: {},
+            spec: {},
+            status: {},
+          },
+        ],
+      } as any);
+
+      await collector.collect();
+
+      const metrics = await registry.metrics();
+
+      // Should have 'unknown' for missing values
+      expect(metrics).toContain('cloudspace="unknown"');
+      expect(metrics).toContain('nodepool="unknown"');
       expect(metrics).toContain('serverclass="unknown"');
     });
   });
 
+  describe('stale series', () => {
+    beforeEach(() => {
+      vi.mocked(mockClient.listOnDemandNodePools).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.listServerClasses).mockResolvedValue({ items: [] } as any);
+    });
+
+    it('should remove series for deleted cloudspaces and node pools', async () => {
+      vi.mocked(mockClient.listCloudSpaces).mockResolvedValue({
+        items: [
+          { metadata: { name: 'cloudspace-1' }, spec: { region: 'us-central-dfw-1' }, status: {} },
+          { metadata: { name: 'cloudspace-2' }, spec: { region: 'us-central-dfw-1' }, status: {} },
+        ],
+      } as any);
+      vi.mocked(mockClient.listSpotNodePools).mockResolvedValue({
+        items: [
+          { metadata: { name: 'spot-pool-1' }, spec: { cloudSpace: 'cloudspace-1', desired: 1 }, status: {} },
+          { metadata: { name: 'spot-pool-2' }, spec: { cloudSpace: 'cloudspace-2', desired: 1 }, status: {} },
+        ],
+      } as any);
+
+      await collector.collect();
+
+      let metrics = await registry.metrics();
+      expect(metrics).toContain('cloudspace="cloudspace-2"');
+      expect(metrics).toContain('nodepool="spot-pool-2"');
+
+      // cloudspace-2 and its pool are deleted
+      vi.mocked(mockClient.listCloudSpaces).mockResolvedValue({
+        items: [{ metadata: { name: 'cloudspace-1' }, spec: { region: 'us-central-dfw-1' }, status: {} }],
+      } as any);
+      vi.mocked(mockClient.listSpotNodePools).mockResolvedValue({
+        items: [{ metadata: { name: 'spot-pool-1' }, spec: { cloudSpace: 'cloudspace-1', desired: 1 }, status: {} }],
+      } as any);
+
+      await collector.collect();
+
+      metrics = await registry.metrics();
+      expect(metrics).toContain('cloudspace="cloudspace-1"');
+      expect(metrics).toContain('nodepool="spot-pool-1"');
+      expect(metrics).not.toContain('cloudspace="cloudspace-2"');
+      expect(metrics).not.toContain('nodepool="spot-pool-2"');
+    });
+
+    it('should drop superseded bid status labels', async () => {
+      vi.mocked(mockClient.listCloudSpaces).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.listSpotNodePools).mockResolvedValue({
+        items: [
+          {
+            metadata: { name: 'spot-pool-1' },
+            spec: { cloudSpace: 'cloudspace-1', desired: 2 },
+            status: { wonCount: 0, bidStatus: 'pending' },
+          },
+        ],
+      } as any);
+
+      await collector.collect();
+
+      let metrics = await registry.metrics();
+      expect(metrics).toContain('bid_status="pending"');
+
+      vi.mocked(mockClient.listSpotNodePools).mockResolvedValue({
+        items: [
+          {
+            metadata: { name: 'spot-pool-1' },
+            spec: { cloudSpace: 'cloudspace-1', desired: 2 },
+            status: { wonCount: 2, bidStatus: 'won' },
+          },
+        ],
+      } as any);
+
+      await collector.collect();
+
+      metrics = await registry.metrics();
+      expect(metrics).toMatch(/rackspace_spot_spotnodepool_won_count\{[^}]*bid_status="won"\} 2/);
+      expect(metrics).not.toContain('bid_status="pending"');
+    });
+
+    it('should drop superseded reserved status labels', async () => {
+      vi.mocked(mockClient.listCloudSpaces).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.listSpotNodePools).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.listOnDemandNodePools).mockResolvedValue({
+        items: [
+          {
+            metadata: { name: 'ondemand-pool-1' },
+            spec: { cloudSpace: 'cloudspace-1', desired: 1 },
+            status: { reservedCount: 0, reservedStatus: 'pending' },
+          },
+        ],
+      } as any);
+
+      await collector.collect();
+
+      vi.mocked(mockClient.listOnDemandNodePools).mockResolvedValue({
+        items: [
+          {
+            metadata: { name: 'ondemand-pool-1' },
+            spec: { cloudSpace: 'cloudspace-1', desired: 1 },
+            status: { reservedCount: 1, reservedStatus: 'reserved' },
+          },
+        ],
+      } as any);
+
+      await collector.collect();
+
+      const metrics = await registry.metrics();
+      expect(metrics).toContain('reserved_status="reserved"');
+      expect(metrics).not.toContain('reserved_status="pending"');
+    });
+
+    it('should keep previous values when a collection fails', async () => {
+      vi.mocked(mockClient.listCloudSpaces).mockResolvedValue({
+        items: [{ metadata: { name: 'cloudspace-1' }, spec: { region: 'us-central-dfw-1' }, status: {} }],
+      } as any);
+      vi.mocked(mockClient.listSpotNodePools).mockResolvedValue({ items: [] } as any);
+
+      await collector.collect();
+
+      vi.mocked(mockClient.listCloudSpaces).mockRejectedValue(new Error('API Error'));
+      const result = await collector.collect();
+
+      expect(result.failed.map(({ section }) => section)).toEqual(['cloudspaces']);
+      const metrics = await registry.metrics();
+      expect(metrics).toContain('cloudspace="cloudspace-1"');
+      expect(metrics).toContain('rackspace_spot_collection_section_stale{section="cloudspaces"} 1');
+    });
+  });
+
+  describe('pending allocations', () => {
+    function mockPendingAllocation(allocatedCount: number) {
+      vi.mocked(mockClient.listCloudSpaces).mockResolvedValue({
+        items: [
+          {
+            metadata: { name: 'cloudspace-1' },
+            spec: { region: 'us-central-dfw-1' },
+            status: {
+              pendingAllocations: {
+                'alloc-1': {
+                  bidName: 'bid-abc',
+                  bidType: 'spot',
+                  serverClassName: 'gp.vs1.medium-dfw',
+                  count: 3,
+                  allocatedCount,
+                },
+              },
+            },
+          },
+        ],
+      } as any);
+    }
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+      vi.mocked(mockClient.listSpotNodePools).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.listOnDemandNodePools).mockResolvedValue({ items: [] } as any);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should export requested, allocated and outstanding counts', async () => {
+      mockPendingAllocation(1);
+
+      await collector.collect();
+
+      const metrics = await registry.metrics();
+
+      expect(metrics).toMatch(
+        /rackspace_spot_cloudspace_pending_allocation_requested\{[^}]*allocation="alloc-1",bid_name="bid-abc",bid_type="spot",serverclass="gp.vs1.medium-dfw"\} 3/
+      );
+      expect(metrics).toMatch(/rackspace_spot_cloudspace_pending_allocation_allocated\{[^}]+\} 1/);
+      expect(metrics).toMatch(/rackspace_spot_cloudspace_pending_allocation_outstanding\{[^}]+\} 2/);
+    });
+
+    it('should track the age of the oldest outstanding allocation across cycles', async () => {
+      mockPendingAllocation(1);
+      await collector.collect();
+
+      let metrics = await registry.metrics();
+      expect(metrics).toMatch(/rackspace_spot_cloudspace_oldest_pending_allocation_age_seconds\{[^}]+\} 0/);
+
+      vi.advanceTimersByTime(300_000);
+      await collector.collect();
+
+      metrics = await registry.metrics();
+      expect(metrics).toMatch(/rackspace_spot_cloudspace_oldest_pending_allocation_age_seconds\{[^}]+\} 300/);
+
+      // Once filled, the allocation no longer counts towards the age
+      mockPendingAllocation(3);
+      vi.advanceTimersByTime(60_000);
+      await collector.collect();
+
+      metrics = await registry.metrics();
+      expect(metrics).toMatch(/rackspace_spot_cloudspace_oldest_pending_allocation_age_seconds\{[^}]+\} 0/);
+
+      // If it becomes outstanding again, tracking restarts
+      mockPendingAllocation(2);
+      vi.advanceTimersByTime(60_000);
+      await collector.collect();
+
+      metrics = await registry.metrics();
+      expect(metrics).toMatch(/rackspace_spot_cloudspace_oldest_pending_allocation_age_seconds\{[^}]+\} 0/);
+    });
+  });
+
+  describe('organizations', () => {
+    const organizations = {
+      organizations: [
+        { id: 'org_aaa', name: 'org-alpha', display_name: 'Alpha Team', metadata: { namespace: 'org-alpha' } },
+        { id: 'org_bbb', name: 'org-beta', display_name: 'Beta Team', metadata: { namespace: 'org-beta' } },
+      ],
+    };
+
+    function mockCloudSpacesPerNamespace() {
+      vi.mocked(mockClient.listCloudSpaces).mockImplementation(
+        async (namespace: string) =>
+          ({
+            items: [{ metadata: { name: `${namespace}-cs` }, spec: { region: 'us-central-dfw-1' }, status: {} }],
+          }) as any
+      );
+      vi.mocked(mockClient.listSpotNodePools).mockResolvedValue({ items: [] } as any);
+      vi.mocked(mockClient.listOnDemandNodePools).mockResolvedValue({ items: [] } as any);
+    }
+
+    it('should collect every configured organization and label series with its id and name', async () => {
+      const multiRegistry = new Registry();
+      const multiCollector = new RackspaceSpotCollector(mockClient, ['org-alpha', 'org-beta'], multiRegistry);
+
+      vi.mocked(mockClient.listOrganizations).mockResolvedValue(organizations);
+      mockCloudSpacesPerNamespace();
+
+      await multiCollector.collect();
+
+      const metrics = await multiRegistry.metrics();
+
+      expect(mockClient.listCloudSpaces).toHaveBeenCalledWith('org-alpha');
+      expect(mockClient.listCloudSpaces).toHaveBeenCalledWith('org-beta');
+      expect(metrics).toContain(
+        'rackspace_spot_cloudspace_nodes_total{namespace="org-alpha",organization_id="org_aaa",organization_name="Alpha Team",cloudspace="org-alpha-cs",cloudspace_region="us-central-dfw-1"} 0'
+      );
+      expect(metrics).toContain('organization_name="Beta Team",cloudspace="org-beta-cs"');
+    });
+
+    it('should discover all organizations in "all" mode', async () => {
+      const allRegistry = new Registry();
+      const allCollector = new RackspaceSpotCollector(mockClient, 'all', allRegistry);
+
+      vi.mocked(mockClient.listOrganizations).mockResolvedValue(organizations);
+      mockCloudSpacesPerNamespace();
+
+      await allCollector.collect();
+
+      const metrics = await allRegistry.metrics();
+
+      expect(mockClient.listCloudSpaces).toHaveBeenCalledTimes(2);
+      expect(metrics).toContain('cloudspace="org-alpha-cs"');
+      expect(metrics).toContain('cloudspace="org-beta-cs"');
+    });
+
+    it('should fail in "all" mode when organizations cannot be listed', async () => {
+      const allCollector = new RackspaceSpotCollector(mockClient, 'all', new Registry());
+
+      vi.mocked(mockClient.listOrganizations).mockRejectedValue(new Error('Unauthorized'));
+      mockCloudSpacesPerNamespace();
+
+      const result = await allCollector.collect();
+
+      const failed = result.failed.map(({ section }) => section);
+      expect(failed).toContain('organizations');
+      expect(failed).toContain('cloudspaces');
+      expect(failed).toContain('spot_nodepools');
+      expect(mockClient.listCloudSpaces).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to the namespace when organization details are unavailable', async () => {
+      vi.mocked(mockClient.listOrganizations).mockRejectedValue(new Error('Unauthorized'));
+      mockCloudSpacesPerNamespace();
+
+      await collector.collect();
+
+      const metrics = await registry.metrics();
+
+      expect(metrics).toContain('namespace="org-test",organization_id="org-test",organization_name="org-test"');
+    });
+
+    it('should keep the last known organization details when a lookup fails', async () => {
+      vi.mocked(mockClient.listOrganizations).mockResolvedValueOnce({
+        organizations: [{ id: 'org_ttt', name: 'org-test', display_name: 'Test Team', metadata: { namespace: 'org-test' } }],
+      });
+      vi.mocked(mockClient.listOrganizations).mockRejectedValue(new Error('Unauthorized'));
+      mockCloudSpacesPerNamespace();
+
+      await collector.collect();
+      await collector.collect();
+
+      const metrics = await registry.metrics();
+
+      expect(mockClient.listOrganizations).toHaveBeenCalledTimes(2);
+      expect(metrics).toContain('namespace="org-test",organization_id="org_ttt",organization_name="Test Team"');
+      expect(metrics).not.toContain('organization_id="org-test"');
+    });
+  });
+
   describe('getRegistry', () => {
     it('should return the registry', () => {
       expect(collector.getRegistry()).toBe(registry);
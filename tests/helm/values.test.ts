@@ -81,12 +81,15 @@ describe('Helm Chart', () => {
         'rackspaceSpot.refreshToken=test-token',
         'rackspaceSpot.apiUrl=https://custom-api.example.com',
         'rackspaceSpot.authUrl=https://custom-auth.example.com',
+        'rackspaceSpot.publicDataUrl=https://custom-data.example.com',
       ]);
 
       expect(output).toContain('RACKSPACE_API_URL');
       expect(output).toContain('https://custom-api.example.com');
       expect(output).toContain('RACKSPACE_AUTH_URL');
       expect(output).toContain('https://custom-auth.example.com');
+      expect(output).toContain('RACKSPACE_PUBLIC_DATA_URL');
+      expect(output).toContain('https://custom-data.example.com');
     });
 
     it('should not set optional API URLs when not provided', () => {
@@ -101,6 +104,73 @@ describe('Helm Chart', () => {
       expect(envMatches.length).toBeLessThanOrEqual(5);
     });
 
+    it('should set collection mode configuration', () => {
+      const output = helmTemplate([
+        'rackspaceSpot.organization=org-test',
+        'rackspaceSpot.refreshToken=test-token',
+        'exporter.collectionMode=scrape',
+        'exporter.collectionMinAge=15',
+        'exporter.readyMaxAgeMultiplier=5',
+      ]);
+
+      expect(output).toContain('COLLECTION_MODE');
+      expect(output).toContain('value: "scrape"');
+      expect(output).toContain('COLLECTION_MIN_AGE');
+      expect(output).toContain('value: "15"');
+      expect(output).toContain('READY_MAX_AGE_MULTIPLIER');
+      expect(output).toContain('value: "5"');
+    });
+
+    it('should set API retry and timeout configuration', () => {
+      const output = helmTemplate([
+        'rackspaceSpot.organization=org-test',
+        'rackspaceSpot.refreshToken=test-token',
+        'exporter.apiMaxRetries=5',
+        'exporter.apiTimeout=10',
+      ]);
+
+      expect(output).toContain('API_MAX_RETRIES');
+      expect(output).toContain('value: "5"');
+      expect(output).toContain('API_TIMEOUT');
+      expect(output).toContain('value: "10"');
+    });
+
+    it('should set log level', () => {
+      const output = helmTemplate([
+        'rackspaceSpot.organization=org-test',
+        'rackspaceSpot.refreshToken=test-token',
+        'exporter.logLevel=debug',
+      ]);
+
+      expect(output).toContain('LOG_LEVEL');
+      expect(output).toContain('value: "debug"');
+    });
+
+    it('should set price history configuration', () => {
+      const output = helmTemplate([
+        'rackspaceSpot.organization=org-test',
+        'rackspaceSpot.refreshToken=test-token',
+        'exporter.priceHistory.serverClasses={gp.vs1.medium-dfw,mh.vs1.large-iad}',
+        'exporter.priceHistory.windows={1h,24h}',
+      ]);
+
+      expect(output).toContain('PRICE_HISTORY_SERVER_CLASSES');
+      expect(output).toContain('value: "gp.vs1.medium-dfw,mh.vs1.large-iad"');
+      expect(output).toContain('PRICE_HISTORY_WINDOWS');
+      expect(output).toContain('value: "1h,24h"');
+    });
+
+    it('should set node pool label allow-list', () => {
+      const output = helmTemplate([
+        'rackspaceSpot.organization=org-test',
+        'rackspaceSpot.refreshToken=test-token',
+        'exporter.nodePoolLabels={team,cost-center}',
+      ]);
+
+      expect(output).toContain('NODEPOOL_LABELS');
+      expect(output).toContain('value: "team,cost-center"');
+    });
+
     it('should set correct port', () => {
       const output = helmTemplate([
         'rackspaceSpot.organization=org-test',
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { parseDuration, parsePrice, parseRetryAfter, parseTimestamp } from '../src/parse';
+
+/**
+ * Unit tests for API value parsing helpers
+ */
+
+describe('parsePrice', () => {
+  it('should parse plain numeric strings', () => {
+    expect(parsePrice('0.0125')).toBe(0.0125);
+    expect(parsePrice('1')).toBe(1);
+  });
+
+  it('should strip a leading dollar sign and whitespace', () => {
+    expect(parsePrice('$0.011')).toBe(0.011);
+    expect(parsePrice('  0.5 ')).toBe(0.5);
+  });
+
+  it('should parse currency-formatted strings', () => {
+    expect(parsePrice('$1,234.50')).toBe(1234.5);
+    expect(parsePrice('USD 0.01')).toBe(0.01);
+    expect(parsePrice('0.01 USD')).toBe(0.01);
+    expect(parsePrice('US$0.2')).toBe(0.2);
+    expect(parsePrice('$0.02/hr')).toBe(0.02);
+    expect(parsePrice('$.5')).toBe(0.5);
+  });
+
+  it('should return undefined for missing or invalid values', () => {
+    expect(parsePrice(undefined)).toBeUndefined();
+    expect(parsePrice(null)).toBeUndefined();
+    expect(parsePrice('')).toBeUndefined();
+    expect(parsePrice('n/a')).toBeUndefined();
+    expect(parsePrice('$')).toBeUndefined();
+    expect(parsePrice('1,23')).toBeUndefined();
+    expect(parsePrice('0x10')).toBeUndefined();
+    expect(parsePrice('Infinity')).toBeUndefined();
+  });
+});
+
+describe('parseDuration', () => {
+  it('should parse single-unit durations', () => {
+    expect(parseDuration('20s')).toBe(20);
+    expect(parseDuration('6m')).toBe(360);
+    expect(parseDuration('1h')).toBe(3600);
+    expect(parseDuration('500ms')).toBe(0.5);
+  });
+
+  it('should parse compound and fractional durations', () => {
+    expect(parseDuration('1h6m')).toBe(3960);
+    expect(parseDuration('1.5h')).toBe(5400);
+    expect(parseDuration('2h45m30s')).toBe(9930);
+  });
+
+  it('should handle zero and signed durations', () => {
+    expect(parseDuration('0')).toBe(0);
+    expect(parseDuration('-1m')).toBe(-60);
+  });
+
+  it('should return undefined for missing or invalid values', () => {
+    expect(parseDuration(undefined)).toBeUndefined();
+    expect(parseDuration('')).toBeUndefined();
+    expect(parseDuration('1d')).toBeUndefined();
+    expect(parseDuration('hourly')).toBeUndefined();
+    expect(parseDuration('60')).toBeUndefined();
+  });
+});
+
+describe('parseRetryAfter', () => {
+  const now = Date.parse('2024-01-02T15:04:05Z');
+
+  it('should parse delay-seconds', () => {
+    expect(parseRetryAfter('120', now)).toBe(120);
+    expect(parseRetryAfter(' 0 ', now)).toBe(0);
+  });
+
+  it('should parse HTTP dates relative to now', () => {
+    expect(parseRetryAfter('Tue, 02 Jan 2024 15:04:35 GMT', now)).toBe(30);
+    expect(parseRetryAfter('Tue, 02 Jan 2024 15:00:00 GMT', now)).toBe(0);
+  });
+
+  it('should return undefined for missing or invalid values', () => {
+    expect(parseRetryAfter(undefined, now)).toBeUndefined();
+    expect(parseRetryAfter(null, now)).toBeUndefined();
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+  });
+
+  it('should reject values that are neither delay-seconds nor HTTP dates', () => {
+    expect(parseRetryAfter('1.5', now)).toBeUndefined();
+    expect(parseRetryAfter('-1', now)).toBeUndefined();
+    expect(parseRetryAfter('2024-01-02T15:04:35Z', now)).toBeUndefined();
+  });
+});
+
+describe('parseTimestamp', () => {
+  it('should parse RFC 3339 timestamps into Unix seconds', () => {
+    expect(parseTimestamp('2024-01-02T15:04:05Z')).toBe(1704207845);
+    expect(parseTimestamp('2024-01-02T15:04:05.5Z')).toBe(1704207845.5);
+  });
+
+  it('should return undefined for missing or invalid values', () => {
+    expect(parseTimestamp(undefined)).toBeUndefined();
+    expect(parseTimestamp('')).toBeUndefined();
+    expect(parseTimestamp('yesterday')).toBeUndefined();
+  });
+});
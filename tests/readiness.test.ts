@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { COLLECTOR_SECTIONS, type CollectorSection, type SectionStatus } from '../src/collector';
+import { checkReadiness } from '../src/readiness';
+
+/**
+ * Unit tests for readiness checks
+ */
+
+const now = Date.parse('2024-01-02T15:04:05Z');
+
+function sectionsWith(status: SectionStatus): Record<CollectorSection, SectionStatus> {
+  return Object.fromEntries(COLLECTOR_SECTIONS.map((section) => [section, { ...status }])) as Record<
+    CollectorSection,
+    SectionStatus
+  >;
+}
+
+describe('checkReadiness', () => {
+  it('should not be ready before the first collection', () => {
+    const readiness = checkReadiness(sectionsWith({}), { now });
+
+    expect(readiness.ready).toBe(false);
+    expect(readiness.sections.cloudspaces).toEqual({
+      ready: false,
+      required: true,
+      lastSuccess: null,
+      lastError: null,
+      lastErrorAt: null,
+      dataAgeSeconds: null,
+    });
+  });
+
+  it('should be ready once every section has succeeded', () => {
+    const readiness = checkReadiness(sectionsWith({ lastSuccessAt: now - 10000 }), { now, maxDataAgeMs: 180000 });
+
+    expect(readiness.ready).toBe(true);
+    expect(readiness.sections.costs).toEqual({
+      ready: true,
+      required: false,
+      lastSuccess: '2024-01-02T15:03:55.000Z',
+      lastError: null,
+      lastErrorAt: null,
+      dataAgeSeconds: 10,
+    });
+  });
+
+  it('should not be ready when a required section never succeeded', () => {
+    const sections = sectionsWith({ lastSuccessAt: now - 10000 });
+    sections.cloudspaces = { lastErrorAt: now - 5000, lastError: 'Failed to authenticate: 401' };
+
+    const readiness = checkReadiness(sections, { now, maxDataAgeMs: 180000 });
+
+    expect(readiness.ready).toBe(false);
+    expect(readiness.sections.cloudspaces).toMatchObject({
+      ready: false,
+      lastError: 'Failed to authenticate: 401',
+      lastErrorAt: '2024-01-02T15:04:00.000Z',
+    });
+  });
+
+  it('should not be ready when a required section is older than the maximum data age', () => {
+    const sections = sectionsWith({ lastSuccessAt: now - 10000 });
+    sections.spot_nodepools = { lastSuccessAt: now - 200000, lastErrorAt: now - 10000, lastError: 'API Error' };
+
+    expect(checkReadiness(sections, { now, maxDataAgeMs: 180000 }).ready).toBe(false);
+    expect(checkReadiness(sections, { now }).ready).toBe(true);
+  });
+
+  it('should stay ready while optional sections fail', () => {
+    const sections = sectionsWith({ lastSuccessAt: now - 10000 });
+    sections.price_history = { lastErrorAt: now - 5000, lastError: 'Failed to fetch price history: 404' };
+    sections.comparable_prices = { lastSuccessAt: now - 200000 };
+
+    const readiness = checkReadiness(sections, { now, maxDataAgeMs: 180000 });
+
+    expect(readiness.ready).toBe(true);
+    expect(readiness.sections.price_history).toMatchObject({ ready: false, required: false });
+    expect(readiness.sections.comparable_prices).toMatchObject({ ready: false, required: false });
+  });
+});